@@ -1,11 +1,16 @@
 import { NextResponse } from 'next/server';
-import { Redis } from '@upstash/redis';
 import { z } from 'zod';
-
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
+import { redis } from '@/utils/redis';
+import { createApiKey } from '@/utils/apiKeys';
+import {
+  crawlSettingsSchema,
+  extractionProviderSchema,
+  mergeStrategySchema,
+  sourcePolicySchema,
+  updateEndpointSettings
+} from '@/utils/endpointSettings';
+import { InvalidSchemaError, publishValidatedSnapshot, SnapshotValidationError } from '@/utils/validation';
+import { checkSourceAuthKey, saveSourceAuth, SourceAuthError, sourceAuthSchema } from '@/utils/sourceAuth';
 
 // Updated validation schema to match the actual request format
 const deployRequestSchema = z.object({
@@ -20,19 +25,34 @@ const deployRequestSchema = z.object({
         required: z.array(z.string()).optional()
       }),
       sources: z.array(z.string()),
-      lastUpdated: z.string()
+      lastUpdated: z.string(),
+      provenance: z.record(z.object({
+        source: z.string().nullable(),
+        agreeing: z.array(z.string()),
+        confidence: z.number().min(0).max(1),
+        strategy: mergeStrategySchema
+      })).optional(),
+      raw: z.record(z.unknown()).optional()
     })
   }),
-  route: z.string().min(1, "Route is required")
+  route: z.string().min(1, "Route is required"),
+  schedule: z.string().optional(),
+  provider: extractionProviderSchema.optional(),
+  merge: mergeStrategySchema.optional(),
+  sourcePolicy: sourcePolicySchema.partial().optional(),
+  crawl: crawlSettingsSchema.partial().optional(),
+  // Stored encrypted; never returned by the routes API
+  sourceAuth: sourceAuthSchema.optional()
 });
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    console.log('Received request body:', body);
+    // Credentials must never reach the logs
+    console.log('Received request body:', { ...body, ...(body?.sourceAuth && { sourceAuth: '[redacted]' }) });
 
     const validatedData = deployRequestSchema.parse(body);
-    const { key, data, route } = validatedData;
+    const { key, data, route, schedule, provider, merge, sourcePolicy, crawl, sourceAuth } = validatedData;
 
     // Clean the route string
     const cleanRoute = route
@@ -51,8 +71,29 @@ export async function POST(req: Request) {
       }, { status: 409 });
     }
 
-    // Store the data in Redis
-    await redis.set(`api/results/${cleanRoute}`, JSON.stringify(data));
+    // Without an encryption key the credentials can't be kept, so fail before anything is published
+    if (sourceAuth && Object.keys(sourceAuth).length > 0) {
+      checkSourceAuthKey();
+    }
+
+    // Store the data in Redis as the endpoint's first snapshot, once it matches the schema
+    const snapshot = await publishValidatedSnapshot(cleanRoute, data);
+
+    if (schedule || provider || merge || sourcePolicy || crawl) {
+      await updateEndpointSettings(cleanRoute, {
+        ...(schedule && { schedule }),
+        ...(provider && { provider }),
+        ...(merge && { merge: { strategy: merge } }),
+        ...(sourcePolicy && { sourcePolicy }),
+        ...(crawl && { crawl })
+      });
+    }
+    if (sourceAuth) {
+      await saveSourceAuth(cleanRoute, sourceAuth);
+    }
+
+    // Mint a key scoped to the new endpoint; the plaintext is only returned once
+    const { key: apiKey, token } = await createApiKey([cleanRoute], `${cleanRoute} (deploy)`);
 
     const apiRoute = process.env.API_ROUTE || 'http://localhost:3000';
     const fullUrl = `${apiRoute}/api/results/${cleanRoute}`;
@@ -62,7 +103,10 @@ export async function POST(req: Request) {
       message: 'API endpoint deployed successfully',
       route: cleanRoute,
       url: fullUrl,
-      curlCommand: `curl -X GET "${fullUrl}" \\\n  -H "Authorization: Bearer sk_w4964vzs5p" \\\n  -H "Content-Type: application/json"`
+      apiKey: token,
+      apiKeyId: apiKey.id,
+      validation: snapshot.metadata.validation,
+      curlCommand: `curl -X GET "${fullUrl}" \\\n  -H "Authorization: Bearer ${token}" \\\n  -H "Content-Type: application/json"`
     });
   } catch (error) {
     console.error('Deployment error:', error);
@@ -78,6 +122,21 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
 
+    if (error instanceof SourceAuthError || error instanceof InvalidSchemaError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.status });
+    }
+
+    if (error instanceof SnapshotValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        validation: error.report
+      }, { status: error.status });
+    }
+
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to deploy endpoint'
@@ -1,69 +1,99 @@
 import { NextResponse } from 'next/server';
-import FirecrawlApp from "@mendable/firecrawl-js";
 import { z } from 'zod';
-import crypto from 'crypto';
-import { Redis } from '@upstash/redis';
-
-const FIRECRAWL_API_KEY = process.env.FIRECRAWL_API_KEY;
-
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
-
-const app = new FirecrawlApp({
-  apiKey: FIRECRAWL_API_KEY || ''
-});
+import { ExtractionError, runExtraction } from '@/utils/extraction';
+import {
+  crawlSettingsSchema,
+  extractionProviderSchema,
+  getEndpointSettings,
+  mergeStrategySchema,
+  sourcePolicySchema
+} from '@/utils/endpointSettings';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { validateAndRepair } from '@/utils/validation';
+import { sealSourceAuth, SourceAuthError, sourceAuthSchema } from '@/utils/sourceAuth';
 
 // Define request schema
 const extractRequestSchema = z.object({
-  urls: z.array(z.string()).min(1),
-  query: z.string(),
-  schema: z.object({}).passthrough()
+  urls: z.array(z.string().url()).min(1),
+  query: z.string().min(1),
+  schema: z.object({}).passthrough(),
+  // Either pick a provider directly or use the one configured for a deployed endpoint
+  provider: extractionProviderSchema.optional(),
+  merge: mergeStrategySchema.optional(),
+  // Overrides individual fields of the endpoint's (or the default) source policy
+  sourcePolicy: sourcePolicySchema.partial().optional(),
+  // Same, for crawl settings
+  crawl: crawlSettingsSchema.partial().optional(),
+  // Per-domain credentials for this run only; an endpoint's stored credentials are reserved for its own rescrapes
+  sourceAuth: sourceAuthSchema.optional(),
+  // Ignore cached extractions of unchanged pages
+  force: z.boolean().optional(),
+  endpoint: z.string().optional()
 });
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
-    const { urls, query, schema } = extractRequestSchema.parse(body);
+    const { urls, query, schema, provider, merge, sourcePolicy, crawl, sourceAuth, force, endpoint } = extractRequestSchema.parse(body);
+    const settings = endpoint ? await getEndpointSettings(endpoint) : null;
+    const selected = provider ?? settings?.provider ?? null;
+    const strategy = merge ?? settings?.merge.strategy;
+    const policy = { ...settings?.sourcePolicy, ...sourcePolicy };
 
-    console.log('Extracting mock data for:', { urls, query, schema });
+    console.log('Extracting data for:', { urls, query, provider: selected, merge: strategy });
 
-    // Generate mock data based on schema
-    const mockData = urls.map(url => {
-      // Create mock data that matches common financial data points
-      const data = {
-        stockPrice: "$699.42",
-        marketCap: "1.73T",
-        volume: "23.4M",
-        peRatio: "34.5",
-        dayRange: "$695.20 - $705.30",
-        yearRange: "$580.00 - $720.50",
-        dividend: "0.32%",
-        eps: "20.15",
-        source: url,
-        lastUpdated: new Date().toISOString()
-      };
-
-      return {
-        url,
-        data,
-        metadata: {
-          extractedAt: new Date().toISOString(),
-          confidence: 0.95
-        }
-      };
+    const result = await runExtraction({
+      urls,
+      query,
+      schema: schema as JsonSchema,
+      provider: selected,
+      merge: strategy,
+      sourcePolicy: policy,
+      crawl: { ...settings?.crawl, ...crawl },
+      sourceAuth: sourceAuth ? sealSourceAuth(sourceAuth) : null,
+      force,
+      endpoint: endpoint ?? null
     });
+    // Preview the validation deploys will apply; data that doesn't conform is returned as-is with its
+    // issues, and deploy makes the one repair attempt
+    const validation = await validateAndRepair(result.data, schema as JsonSchema, query, endpoint, { repair: false });
 
     return NextResponse.json({
       success: true,
-      data: mockData
+      data: validation.data ?? result.data,
+      validation: validation.report,
+      raw: validation.raw,
+      provenance: result.provenance,
+      merge: result.run.merge,
+      cache: result.run.cache,
+      sources: result.sources,
+      provider: result.run.provider
     });
   } catch (error) {
     console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    if (error instanceof ExtractionError || error instanceof SourceAuthError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        sources: error instanceof ExtractionError ? error.sources : []
+      }, { status: error.status });
+    }
+
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to process request'
-    }, { status: 400 });
+    }, { status: 500 });
   }
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import OpenAI from 'openai';
+import { recordModelUsage } from '@/utils/spend';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -20,7 +21,9 @@ export async function POST(req: Request) {
           2. Add required fields when they are essential
           3. Use descriptive property names
           4. Add descriptions for complex fields
-          5. Use proper JSON Schema format`
+          5. Use proper JSON Schema format
+          6. For prices, large counts, percentages, dates and measurements, use a number (or a date string) and add
+             "x-normalize": "currency" | "magnitude" | "percent" | "date", or {"type": "unit", "unit": "kg"}`
         },
         {
           role: "user",
@@ -30,6 +33,8 @@ export async function POST(req: Request) {
       temperature: 0.1,
       max_tokens: 1000,
     });
+    // Schemas are generated before an endpoint exists, so their spend isn't attributed to one
+    await recordModelUsage(completion, { model: 'gpt-3.5-turbo', operation: 'schema' });
 
     // Parse the response to ensure it's valid JSON
     const schemaStr = completion.choices[0].message.content || '';
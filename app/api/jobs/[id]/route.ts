@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getJob } from '@/utils/jobs';
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const job = await getJob(params.id);
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch job' },
+      { status: 500 }
+    );
+  }
+}
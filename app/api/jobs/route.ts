@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  crawlSettingsSchema,
+  extractionProviderSchema,
+  getEndpointSettings,
+  mergeStrategySchema,
+  sourcePolicySchema
+} from '@/utils/endpointSettings';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { getCurrentSnapshot } from '@/utils/snapshots';
+import { createJob, dispatchJob, listJobs, type JobInput } from '@/utils/jobs';
+import { sealSourceAuth, SourceAuthError, sourceAuthSchema } from '@/utils/sourceAuth';
+
+const extractionFields = {
+  urls: z.array(z.string().url()).min(1),
+  query: z.string().min(1),
+  schema: z.object({}).passthrough()
+};
+
+// Ignore cached extractions and run every page through the provider again
+const force = z.boolean().optional();
+
+const jobRequestSchema = z.discriminatedUnion('type', [
+  // Same body as /api/extract
+  z.object({
+    type: z.literal('extract'),
+    ...extractionFields,
+    provider: extractionProviderSchema.optional(),
+    merge: mergeStrategySchema.optional(),
+    sourcePolicy: sourcePolicySchema.partial().optional(),
+    crawl: crawlSettingsSchema.partial().optional(),
+    sourceAuth: sourceAuthSchema.optional(),
+    endpoint: z.string().optional(),
+    force
+  }),
+  z.object({
+    type: z.literal('rescrape'),
+    endpoint: z.string().min(1),
+    force,
+    // Scheduled rescrapes are skipped once the endpoint's monthly budget is spent
+    trigger: z.enum(['manual', 'schedule']).optional()
+  }),
+  z.object({
+    type: z.literal('publish'),
+    endpoint: z.string().min(1),
+    ...extractionFields,
+    force
+  })
+]);
+
+export async function POST(req: Request) {
+  try {
+    const body = jobRequestSchema.parse(await req.json());
+    let input: JobInput;
+
+    if (body.type === 'extract') {
+      const { urls, query, schema, provider, merge, sourcePolicy, crawl, sourceAuth, endpoint } = body;
+      const settings = endpoint ? await getEndpointSettings(endpoint) : null;
+      input = {
+        type: 'extract',
+        request: {
+          urls,
+          query,
+          schema: schema as JsonSchema,
+          provider: provider ?? settings?.provider ?? null,
+          merge: merge ?? settings?.merge.strategy,
+          sourcePolicy: { ...settings?.sourcePolicy, ...sourcePolicy },
+          crawl: { ...settings?.crawl, ...crawl },
+          // Sealed before the request is stored with the job; stored credentials are never used for ad-hoc URLs
+          sourceAuth: sourceAuth ? sealSourceAuth(sourceAuth) : null,
+          force: body.force,
+          endpoint: endpoint ?? null
+        }
+      };
+    } else if (body.type === 'rescrape') {
+      if (!(await getCurrentSnapshot(body.endpoint))) {
+        return NextResponse.json({
+          success: false,
+          error: 'Route not found'
+        }, { status: 404 });
+      }
+      input = { type: 'rescrape', endpoint: body.endpoint, force: body.force, trigger: body.trigger };
+    } else {
+      const { endpoint, urls, query, schema } = body;
+      input = { type: 'publish', endpoint, urls, query, schema: schema as JsonSchema, force: body.force };
+    }
+
+    const job = await createJob(input);
+    await dispatchJob(job);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    if (error instanceof SourceAuthError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to start job' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(req: Request) {
+  try {
+    const url = new URL(req.url);
+    const endpoint = url.searchParams.get('endpoint') || undefined;
+    const jobs = await listJobs(endpoint);
+
+    return NextResponse.json({
+      success: true,
+      jobs
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { serve } from '@upstash/workflow/nextjs';
+import { executeJob } from '@/utils/jobs';
+
+// Called by QStash when JOB_RUNNER is 'workflow'; each job step runs as its own invocation
+export const { POST } = serve<{ jobId: string }>(async context => {
+  await executeJob(context.requestPayload.jobId, (name, fn) => context.run(name, fn));
+});
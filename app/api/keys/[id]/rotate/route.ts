@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { checkAdminToken, rotateApiKey, toPublicApiKey } from '@/utils/apiKeys';
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const rotated = await rotateApiKey(params.id);
+    if (!rotated) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key not found or revoked'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'API key rotated successfully',
+      key: toPublicApiKey(rotated.key),
+      apiKey: rotated.token
+    });
+  } catch (error) {
+    console.error('Error rotating API key:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to rotate API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { checkAdminToken, revokeApiKey, toPublicApiKey } from '@/utils/apiKeys';
+
+export async function DELETE(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const key = await revokeApiKey(params.id);
+    if (!key) {
+      return NextResponse.json({
+        success: false,
+        error: 'API key not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'API key revoked successfully',
+      key: toPublicApiKey(key)
+    });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
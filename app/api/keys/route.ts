@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkAdminToken, createApiKey, listApiKeys, toPublicApiKey } from '@/utils/apiKeys';
+
+const createKeySchema = z.object({
+  endpoints: z.array(z.string().min(1)).min(1, "At least one endpoint is required"),
+  name: z.string().optional()
+});
+
+export async function GET(req: Request) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const url = new URL(req.url);
+    const endpoint = url.searchParams.get('endpoint') || undefined;
+    const keys = await listApiKeys(endpoint);
+
+    return NextResponse.json({
+      success: true,
+      keys: keys.map(toPublicApiKey)
+    });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const body = await req.json();
+    const { endpoints, name } = createKeySchema.parse(body);
+    const { key, token } = await createApiKey(endpoints, name);
+
+    return NextResponse.json({
+      success: true,
+      key: toPublicApiKey(key),
+      apiKey: token
+    });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
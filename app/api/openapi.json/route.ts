@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/utils/openapi';
+import { getCurrentSnapshot, listEndpoints, type StoredEndpoint } from '@/utils/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+// Aggregate document covering every deployed api/results/* endpoint
+export async function GET() {
+  try {
+    const endpoints: { endpoint: string; snapshot: StoredEndpoint }[] = [];
+    for (const endpoint of await listEndpoints()) {
+      const snapshot = await getCurrentSnapshot(endpoint);
+      if (snapshot?.metadata) {
+        endpoints.push({ endpoint, snapshot });
+      }
+    }
+
+    const serverUrl = process.env.API_ROUTE || 'http://localhost:3000';
+    return NextResponse.json(buildOpenApiDocument(endpoints, serverUrl));
+  } catch (error) {
+    console.error('Error generating OpenAPI document:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate OpenAPI document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/utils/openapi';
+import { getCurrentSnapshot } from '@/utils/snapshots';
+
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const snapshot = await getCurrentSnapshot(params.endpoint);
+    if (!snapshot?.metadata) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const serverUrl = process.env.API_ROUTE || 'http://localhost:3000';
+    const document = buildOpenApiDocument([{ endpoint: params.endpoint, snapshot }], serverUrl);
+
+    return NextResponse.json(document, {
+      headers: { 'Content-Disposition': `inline; filename="${params.endpoint}.openapi.json"` }
+    });
+  } catch (error) {
+    console.error('Error generating OpenAPI document:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate OpenAPI document' },
+      { status: 500 }
+    );
+  }
+}
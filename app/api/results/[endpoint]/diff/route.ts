@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { authorizeResultsRequest } from '@/utils/resultsAuth';
+import { compareSnapshots } from '@/utils/snapshots';
+
+const parseVersion = (value: string | null) => (value === null || value === '' ? undefined : Number(value));
+
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const access = await authorizeResultsRequest(req, params.endpoint);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const url = new URL(req.url);
+    const from = parseVersion(url.searchParams.get('from'));
+    const to = parseVersion(url.searchParams.get('to'));
+
+    if ([from, to].some(v => v !== undefined && (!Number.isInteger(v) || v < 1))) {
+      return NextResponse.json({
+        success: false,
+        error: 'from and to must be positive integer versions'
+      }, { status: 400, headers: access.headers });
+    }
+
+    const diff = await compareSnapshots(params.endpoint, from, to);
+    if (!diff) {
+      return NextResponse.json({
+        success: false,
+        error: 'Snapshots not found for the requested versions'
+      }, { status: 404, headers: access.headers });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...diff
+    }, { headers: access.headers });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to diff snapshots' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,54 @@
 import { NextResponse } from 'next/server';
-import { Redis } from '@upstash/redis';
+import { authorizeResultsRequest } from '@/utils/resultsAuth';
+import { getCurrentSnapshot, getSnapshotAt, getSnapshotByVersion, resultsKey, type StoredEndpoint } from '@/utils/snapshots';
+import { redis } from '@/utils/redis';
+import { applyResultsQuery, ResultsQueryError } from '@/utils/resultsQuery';
+import { FormatError, formatHeaders, negotiateFormat, serialize, type OutputFormat } from '@/utils/formats';
+import { cacheControl, computeEtag, isNotModified, lastModified, normalizedParams } from '@/utils/httpCache';
+import { recordHit } from '@/utils/analytics';
+import { refundQuota, type LimitResult } from '@/utils/rateLimit';
 
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
+type HitContext = { keyId: string | null; format: string; quota: LimitResult | null };
 
 export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  const started = Date.now();
+  const hit: HitContext = { keyId: null, format: 'json', quota: null };
+  const response = await getResults(req, params, hit);
+
+  // Only 200 responses count against the monthly quota; 304s, missing snapshots and errors are given back
+  if (hit.quota && response.status !== 200) {
+    try {
+      await refundQuota(params.endpoint, hit.quota);
+      response.headers.set('X-Quota-Remaining', String(Math.min(hit.quota.limit, hit.quota.remaining + 1)));
+    } catch (quotaError) {
+      console.error('Failed to refund quota:', quotaError);
+    }
+  }
+
+  // Analytics must never break the response, so failures are only logged
+  if (params?.endpoint) {
+    try {
+      // Requests for endpoints that don't exist aren't recorded, so probing names can't create analytics keys
+      if (response.status >= 400 && !(await redis.exists(resultsKey(params.endpoint)))) {
+        return response;
+      }
+      const bytes = response.body ? (await response.clone().arrayBuffer()).byteLength : 0;
+      await recordHit(params.endpoint, {
+        keyId: hit.keyId,
+        status: response.status,
+        latencyMs: Date.now() - started,
+        bytes,
+        format: hit.format
+      });
+    } catch (analyticsError) {
+      console.error('Failed to record usage:', analyticsError);
+    }
+  }
+
+  return response;
+}
+
+async function getResults(req: Request, params: { endpoint: string }, hit: HitContext) {
   try {
     // Check Redis connection
     if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
@@ -24,29 +66,62 @@ export async function GET(req: Request, { params }: { params: { endpoint: string
       }, { status: 400 });
     }
 
-    const endpoint = `api/results/${params.endpoint}`;
-    console.log('Fetching results for endpoint:', endpoint);
+    const access = await authorizeResultsRequest(req, params.endpoint);
+    if (!access.ok) {
+      return access.response;
+    }
+    const { settings, headers: limitHeaders } = access;
+    hit.keyId = access.key.id;
+    hit.quota = access.quota;
+
+    console.log('Fetching results for endpoint:', params.endpoint);
 
     // Get the URL parameters
     const url = new URL(req.url);
     const includeSchema = url.searchParams.get('schema') === 'true';
+    const includeProvenance = url.searchParams.get('provenance') === 'true';
+    const includeRaw = url.searchParams.get('raw') === 'true';
+
+    let format: OutputFormat;
+    try {
+      format = negotiateFormat(req, url.searchParams);
+      hit.format = includeSchema ? 'json' : format;
+    } catch (formatError) {
+      if (formatError instanceof FormatError) {
+        return NextResponse.json({
+          success: false,
+          error: formatError.message
+        }, { status: formatError.status, headers: limitHeaders });
+      }
+      throw formatError;
+    }
+
+    // Pick the requested snapshot: ?version=N, ?at=<ISO timestamp>, or the current one
+    const versionParam = url.searchParams.get('version');
+    const atParam = url.searchParams.get('at');
+    const version = versionParam === null ? null : Number(versionParam);
+    const at = atParam === null ? null : new Date(atParam);
 
-    // Get cached results
-    const results = await redis.get(endpoint);
-    console.log('Raw Redis results:', results);
-    
-    if (!results) {
+    if (version !== null && (!Number.isInteger(version) || version < 1)) {
       return NextResponse.json({
         success: false,
-        error: 'No results found for this endpoint'
-      }, { status: 404 });
+        error: 'version must be a positive integer'
+      }, { status: 400, headers: limitHeaders });
+    }
+    if (at && Number.isNaN(at.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'at must be an ISO 8601 timestamp'
+      }, { status: 400, headers: limitHeaders });
     }
 
-    // Parse the stored results
-    let storedData;
+    let storedData: StoredEndpoint | null;
     try {
-      storedData = typeof results === 'string' ? JSON.parse(results) : results;
-      console.log('Parsed stored data:', storedData);
+      storedData = version !== null
+        ? await getSnapshotByVersion(params.endpoint, version)
+        : at
+          ? await getSnapshotAt(params.endpoint, at)
+          : await getCurrentSnapshot(params.endpoint);
     } catch (parseError) {
       console.error('Failed to parse stored data:', parseError);
       return NextResponse.json({
@@ -54,19 +129,86 @@ export async function GET(req: Request, { params }: { params: { endpoint: string
         error: 'Invalid data format in storage'
       }, { status: 500 });
     }
-    
+
+    if (!storedData) {
+      return NextResponse.json({
+        success: false,
+        error: version !== null || at
+          ? 'No snapshot found for the requested version'
+          : 'No results found for this endpoint'
+      }, { status: 404, headers: limitHeaders });
+    }
+
+    // Conditional requests are answered before any query or serialization work
+    const etag = computeEtag(storedData, {
+      format: includeSchema ? 'json' : format,
+      params: normalizedParams(url.searchParams)
+    });
+    const modified = lastModified(storedData.metadata?.lastUpdated);
+    const cacheHeaders: Record<string, string> = {
+      ...limitHeaders,
+      'ETag': etag,
+      'Cache-Control': cacheControl(settings.schedule, storedData.metadata?.lastUpdated, settings.sharedCache),
+      'Vary': 'Accept, Authorization',
+      ...(modified && { 'Last-Modified': modified })
+    };
+
+    if (isNotModified(req, etag, modified)) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
     // Return different response based on schema parameter
     if (includeSchema) {
       return NextResponse.json({
         success: true,
         data: storedData
-      });
+      }, { headers: cacheHeaders });
     } else {
-      return NextResponse.json({
+      let result;
+      try {
+        result = applyResultsQuery(storedData.data, storedData.metadata?.schema, url.searchParams);
+      } catch (queryError) {
+        if (queryError instanceof ResultsQueryError) {
+          return NextResponse.json({
+            success: false,
+            error: queryError.message
+          }, { status: 400, headers: limitHeaders });
+        }
+        throw queryError;
+      }
+
+      const envelope = {
         success: true,
-        data: storedData.data,
+        data: result.data,
+        ...(result.pagination && { pagination: result.pagination }),
         lastUpdated: storedData.metadata?.lastUpdated,
-        sources: storedData.metadata?.sources
+        sources: storedData.metadata?.sources,
+        version: storedData.metadata?.version,
+        // Per-field source URL and confidence from the multi-source merge
+        ...(includeProvenance && { provenance: storedData.metadata?.provenance ?? null }),
+        // Values as extracted for fields whose x-normalize rule sets keepRaw
+        ...(includeRaw && { raw: storedData.metadata?.raw ?? null })
+      };
+
+      if (format === 'json') {
+        return NextResponse.json(envelope, { headers: cacheHeaders });
+      }
+
+      let body: string;
+      try {
+        body = serialize(format, envelope, storedData.metadata?.schema);
+      } catch (formatError) {
+        if (formatError instanceof FormatError) {
+          return NextResponse.json({
+            success: false,
+            error: formatError.message
+          }, { status: formatError.status, headers: limitHeaders });
+        }
+        throw formatError;
+      }
+
+      return new NextResponse(body, {
+        headers: { ...formatHeaders(format, params.endpoint), ...cacheHeaders }
       });
     }
   } catch (error) {
@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server';
+import { getBearerToken, verifyApiKey, verifyStreamToken } from '@/utils/apiKeys';
+import { authorizeResultsRequest } from '@/utils/resultsAuth';
+import {
+  getCurrentSnapshot,
+  getCurrentVersion,
+  getSnapshotsSince,
+  type StoredEndpoint
+} from '@/utils/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Serverless functions can't hold connections forever; EventSource reconnects with Last-Event-ID
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+const formatEvent = (snapshot: StoredEndpoint) =>
+  `id: ${snapshot.metadata.version ?? 0}\n` +
+  `event: snapshot\n` +
+  `data: ${JSON.stringify({
+    version: snapshot.metadata.version,
+    lastUpdated: snapshot.metadata.lastUpdated,
+    sources: snapshot.metadata.sources,
+    data: snapshot.data
+  })}\n\n`;
+
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const url = new URL(req.url);
+    // EventSource can't send headers, so it passes a short-lived ?token= from POST .../stream/token.
+    // API keys are only accepted as bearer tokens, so they never appear in URLs and logs.
+    const streamToken = url.searchParams.get('token');
+    const access = streamToken
+      ? await authorizeResultsRequest(req, params.endpoint, streamToken, verifyStreamToken)
+      : await authorizeResultsRequest(req, params.endpoint, getBearerToken(req), verifyApiKey);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const lastEventId = req.headers.get('last-event-id') || url.searchParams.get('lastEventId');
+    const requestedVersion = lastEventId !== null && /^\d+$/.test(lastEventId) ? Number(lastEventId) : null;
+
+    const current = await getCurrentSnapshot(params.endpoint);
+    if (!current) {
+      return NextResponse.json({
+        success: false,
+        error: 'No results found for this endpoint'
+      }, { status: 404, headers: access.headers });
+    }
+
+    // An ID ahead of the current version (the endpoint was deleted and redeployed, say) can't be
+    // resumed from, so the client starts over with the current snapshot
+    const currentVersion = current.metadata.version ?? 0;
+    const resumeFrom = requestedVersion !== null && requestedVersion <= currentVersion ? requestedVersion : null;
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let lastVersion = resumeFrom ?? currentVersion;
+    const timers: ReturnType<typeof setInterval>[] = [];
+    let closeTimer: ReturnType<typeof setTimeout> | undefined;
+    const stopTimers = () => {
+      timers.forEach(clearInterval);
+      clearTimeout(closeTimer);
+    };
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (chunk: string) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+        };
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          stopTimers();
+          controller.close();
+        };
+
+        send('retry: 3000\n\n');
+
+        // Replay what was missed since Last-Event-ID, or start with the current snapshot
+        if (resumeFrom === null) {
+          send(formatEvent(current));
+        } else {
+          const missed = await getSnapshotsSince(params.endpoint, resumeFrom);
+          missed.forEach(snapshot => send(formatEvent(snapshot)));
+          lastVersion = Math.max(resumeFrom, ...missed.map(s => s.metadata.version ?? 0));
+        }
+
+        timers.push(setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS));
+
+        timers.push(setInterval(async () => {
+          try {
+            const version = await getCurrentVersion(params.endpoint);
+            if (version > lastVersion) {
+              const updates = await getSnapshotsSince(params.endpoint, lastVersion);
+              updates.forEach(snapshot => send(formatEvent(snapshot)));
+              lastVersion = version;
+            }
+          } catch (error) {
+            console.error('Error polling for updates:', error);
+          }
+        }, POLL_INTERVAL_MS));
+
+        closeTimer = setTimeout(close, MAX_STREAM_MS);
+        req.signal.addEventListener('abort', close);
+      },
+      cancel() {
+        closed = true;
+        stopTimers();
+      }
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        ...access.headers,
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to open stream' },
+      { status: 500 }
+    );
+  }
+}
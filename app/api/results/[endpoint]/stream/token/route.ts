@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { createStreamToken } from '@/utils/apiKeys';
+import { authorizeResultsRequest } from '@/utils/resultsAuth';
+
+// Exchange an API key (as a bearer token) for a short-lived token to put in the stream URL
+export async function POST(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const access = await authorizeResultsRequest(req, params.endpoint);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const { token, expiresAt } = createStreamToken(access.key, params.endpoint);
+
+    return NextResponse.json({
+      success: true,
+      endpoint: params.endpoint,
+      token,
+      expiresAt,
+      streamUrl: `/api/results/${params.endpoint}/stream?token=${token}`
+    }, { headers: { ...access.headers, 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create stream token' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { authorizeResultsRequest } from '@/utils/resultsAuth';
+import { listVersions } from '@/utils/snapshots';
+
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const access = await authorizeResultsRequest(req, params.endpoint);
+    if (!access.ok) {
+      return access.response;
+    }
+
+    const versions = await listVersions(params.endpoint);
+
+    return NextResponse.json({
+      success: true,
+      endpoint: params.endpoint,
+      retention: access.settings.history.retention,
+      versions
+    }, { headers: access.headers });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkRobots } from '@/utils/politeness';
+
+const robotsRequestSchema = z.object({
+  urls: z.array(z.string().url()).min(1).max(50)
+});
+
+// Which candidate sources robots.txt lets us fetch, so blocked ones can be flagged before extracting
+export async function POST(req: Request) {
+  try {
+    const { urls } = robotsRequestSchema.parse(await req.json());
+    const results = await Promise.all(urls.map(checkRobots));
+
+    return NextResponse.json({
+      success: true,
+      results
+    });
+  } catch (error) {
+    console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to check robots.txt' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+import { checkAdminToken, listApiKeys, toPublicApiKey } from '@/utils/apiKeys';
+import { getEndpointSettings, updateEndpointSettings } from '@/utils/endpointSettings';
+import { getUsage } from '@/utils/rateLimit';
+import { compareSnapshots } from '@/utils/snapshots';
+import { getValidationReport } from '@/utils/validation';
+import { getBudgetStatus } from '@/utils/spend';
+import { checkSourceAuthKey, getSourceAuthSummary, saveSourceAuth, SourceAuthError, sourceAuthSchema } from '@/utils/sourceAuth';
+
+// Admin view of a single endpoint: stored config, settings, keys, current usage, latest changes, validation
+// and this month's model spend against its budget.
+// Source credentials are listed by domain and name only; their values are never returned.
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const config = await redis.get(`api/results/${params.endpoint}`);
+    if (!config) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const settings = await getEndpointSettings(params.endpoint);
+    const keys = await listApiKeys(params.endpoint);
+    const usage = await getUsage(params.endpoint, settings, keys.map(k => k.id));
+    // What the most recent run changed, for operators reviewing rescrapes
+    const changes = await compareSnapshots(params.endpoint);
+    // Latest validation outcome, including runs rejected without replacing the current snapshot
+    const validation = await getValidationReport(params.endpoint);
+    const sourceAuth = await getSourceAuthSummary(params.endpoint);
+    const spend = await getBudgetStatus(params.endpoint, settings);
+
+    return NextResponse.json({
+      success: true,
+      endpoint: params.endpoint,
+      config: typeof config === 'string' ? JSON.parse(config) : config,
+      settings,
+      keys: keys.map(toPublicApiKey),
+      usage,
+      changes,
+      validation,
+      sourceAuth,
+      spend
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch route' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const exists = await redis.exists(`api/results/${params.endpoint}`);
+    if (!exists) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const { settings: changes, sourceAuth } = await req.json();
+    // Credentials are replaced as a whole; null removes them
+    const credentials = sourceAuth === undefined ? undefined : sourceAuthSchema.nullable().parse(sourceAuth);
+    if (credentials && Object.keys(credentials).length > 0) {
+      checkSourceAuthKey();
+    }
+    const settings = await updateEndpointSettings(params.endpoint, changes || {});
+    const summary = credentials === undefined
+      ? await getSourceAuthSummary(params.endpoint)
+      : await saveSourceAuth(params.endpoint, credentials);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Route settings updated successfully',
+      settings,
+      sourceAuth: summary
+    });
+  } catch (error) {
+    console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    if (error instanceof SourceAuthError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update route settings' },
+      { status: 500 }
+    );
+  }
+}
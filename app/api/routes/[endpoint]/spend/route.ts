@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+import { getEndpointSettings } from '@/utils/endpointSettings';
+import { getBudgetStatus, getSpend, MAX_SPEND_DAYS, unpricedWarning } from '@/utils/spend';
+
+const spendQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_SPEND_DAYS).default(30)
+});
+
+// Daily model tokens and estimated cost for an endpoint's extractions, with this month's budget status
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const exists = await redis.exists(`api/results/${params.endpoint}`);
+    if (!exists) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const { days } = spendQuerySchema.parse({
+      days: url.searchParams.get('days') ?? undefined
+    });
+
+    const spend = await getSpend(params.endpoint, days);
+    const budget = await getBudgetStatus(params.endpoint, await getEndpointSettings(params.endpoint));
+
+    return NextResponse.json({
+      success: true,
+      endpoint: params.endpoint,
+      ...spend,
+      budget,
+      warning: unpricedWarning(spend.month)
+    });
+  } catch (error) {
+    console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch spend' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+import { getUsageAnalytics, MAX_DAYS, MAX_HOURS } from '@/utils/analytics';
+
+const usageQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(MAX_HOURS).default(24),
+  days: z.coerce.number().int().min(1).max(MAX_DAYS).default(30)
+});
+
+// Hourly and daily request counts, errors, bytes and latency percentiles for /api/results/:endpoint
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const exists = await redis.exists(`api/results/${params.endpoint}`);
+    if (!exists) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const url = new URL(req.url);
+    const { hours, days } = usageQuerySchema.parse({
+      hours: url.searchParams.get('hours') ?? undefined,
+      days: url.searchParams.get('days') ?? undefined
+    });
+
+    const usage = await getUsageAnalytics(params.endpoint, hours, days);
+
+    return NextResponse.json({
+      success: true,
+      endpoint: params.endpoint,
+      ...usage
+    });
+  } catch (error) {
+    console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { checkAdminToken } from '@/utils/apiKeys';
+import { deleteWebhook } from '@/utils/webhooks';
+
+export async function DELETE(req: Request, { params }: { params: { endpoint: string; id: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const deleted = await deleteWebhook(params.endpoint, params.id);
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
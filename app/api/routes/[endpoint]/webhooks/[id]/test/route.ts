@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { checkAdminToken } from '@/utils/apiKeys';
+import { deliverWebhook, listWebhooks } from '@/utils/webhooks';
+import { getCurrentSnapshot } from '@/utils/snapshots';
+
+// Send the current snapshot to a single subscription so receivers can verify their setup. It is
+// attempted once, so the request isn't held open through the retry backoff.
+export async function POST(req: Request, { params }: { params: { endpoint: string; id: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const webhooks = await listWebhooks(params.endpoint);
+    const webhook = webhooks.find(w => w.id === params.id);
+    if (!webhook) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook not found'
+      }, { status: 404 });
+    }
+
+    const current = await getCurrentSnapshot(params.endpoint);
+    const delivery = await deliverWebhook(params.endpoint, webhook, {
+      event: 'webhook.test',
+      endpoint: params.endpoint,
+      version: current?.metadata.version,
+      lastUpdated: current?.metadata.lastUpdated,
+      data: current?.data ?? null,
+      changes: null
+    }, { maxAttempts: 1 });
+
+    return NextResponse.json({
+      success: delivery.success,
+      delivery
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send test delivery' },
+      { status: 500 }
+    );
+  }
+}
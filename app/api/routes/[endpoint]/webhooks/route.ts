@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+import { checkAdminToken } from '@/utils/apiKeys';
+import { UnsafeUrlError } from '@/utils/urlSafety';
+import { createWebhook, listDeliveries, listWebhooks, toPublicWebhook } from '@/utils/webhooks';
+
+const createWebhookSchema = z.object({
+  url: z.string().url("A valid webhook URL is required")
+});
+
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const webhooks = await listWebhooks(params.endpoint);
+    const deliveries = await listDeliveries(params.endpoint);
+
+    return NextResponse.json({
+      success: true,
+      webhooks: webhooks.map(toPublicWebhook),
+      deliveries
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const exists = await redis.exists(`api/results/${params.endpoint}`);
+    if (!exists) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { url } = createWebhookSchema.parse(body);
+    const webhook = await createWebhook(params.endpoint, url);
+
+    // The signing secret is only returned when the subscription is created
+    return NextResponse.json({
+      success: true,
+      webhook: toPublicWebhook(webhook),
+      secret: webhook.secret
+    });
+  } catch (error) {
+    console.error('Error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message
+        }))
+      }, { status: 400 });
+    }
+
+    if (error instanceof UnsafeUrlError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
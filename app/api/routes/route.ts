@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
-import { Redis } from '@upstash/redis';
-
-const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL || '',
-  token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-});
+import { redis } from '@/utils/redis';
+import { deleteEndpointSettings, getEndpointSettings } from '@/utils/endpointSettings';
+import { deleteSnapshots, getCurrentSnapshot } from '@/utils/snapshots';
+import { deleteAllWebhooks } from '@/utils/webhooks';
+import { deleteUsageAnalytics } from '@/utils/analytics';
+import { deleteValidationReport } from '@/utils/validation';
+import { deleteSourceAuth } from '@/utils/sourceAuth';
+import { checkAdminToken, removeEndpointFromKeys } from '@/utils/apiKeys';
+import { createJob, dispatchJob } from '@/utils/jobs';
+import { budgetExceededMessage, deleteSpend, getBudgetStatus, getMonthSpend } from '@/utils/spend';
 
 export async function GET() {
   try {
@@ -19,14 +23,20 @@ export async function GET() {
         routes.push({
           endpoint,
           config: typeof config === 'string' ? JSON.parse(config) : config,
-          url: `/api/results/${endpoint}`
+          url: `/api/results/${endpoint}`,
+          // Estimated model spend this month against the endpoint's budget
+          spend: await getBudgetStatus(endpoint, await getEndpointSettings(endpoint))
         });
       }
     }
 
+    // Model calls made outside any endpoint, such as schema generation
+    const unattributed = await getMonthSpend(null);
+
     return NextResponse.json({
       success: true,
-      routes
+      routes,
+      unattributedSpend: { spentUsd: unattributed.costUsd }
     });
   } catch (error) {
     console.error('Error:', error);
@@ -39,7 +49,7 @@ export async function GET() {
 
 export async function POST(req: Request) {
   try {
-    const { endpoint } = await req.json();
+    const { endpoint, force, trigger } = await req.json();
     if (!endpoint) {
       return NextResponse.json({
         success: false,
@@ -47,40 +57,38 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
 
-    // Get the existing configuration
-    const configKey = `api/results/${endpoint}`;
-    const config = await redis.get(configKey);
-    
-    if (!config) {
+    if (!(await getCurrentSnapshot(endpoint))) {
       return NextResponse.json({
         success: false,
         error: 'Route not found'
       }, { status: 404 });
     }
 
-    // Re-run extraction with existing configuration
-    const extractResponse = await fetch(`${process.env.VERCEL_URL || 'http://localhost:3000'}/api/extract`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(config)
-    });
-
-    const extractData = await extractResponse.json();
-    if (!extractData.success) {
-      throw new Error(extractData.error);
+    // Cron callers get a 200 so they don't retry a run that was skipped on purpose
+    const scheduled = trigger === 'schedule';
+    if (scheduled) {
+      const budget = await getBudgetStatus(endpoint, await getEndpointSettings(endpoint));
+      if (budget.exceeded) {
+        return NextResponse.json({
+          success: true,
+          skipped: true,
+          message: budgetExceededMessage(budget),
+          budget
+        });
+      }
     }
 
-    // Update the results
-    await redis.set(configKey, {
-      ...config,
-      updatedAt: new Date().toISOString()
-    });
+    // Re-run extraction with the existing configuration in the background; unchanged pages
+    // reuse their cached extraction unless forced
+    const job = await createJob({ type: 'rescrape', endpoint, force: force === true, trigger: scheduled ? 'schedule' : 'manual' });
+    await dispatchJob(job);
 
     return NextResponse.json({
       success: true,
-      message: 'Route updated successfully',
-      data: extractData.data
-    });
+      message: 'Rescrape started',
+      jobId: job.id,
+      statusUrl: `/api/jobs/${job.id}`
+    }, { status: 202 });
   } catch (error) {
     console.error('Error:', error);
     return NextResponse.json(
@@ -92,6 +100,14 @@ export async function POST(req: Request) {
 
 export async function DELETE(req: Request) {
   try {
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
     const { endpoint } = await req.json();
     if (!endpoint) {
       return NextResponse.json({
@@ -101,7 +117,14 @@ export async function DELETE(req: Request) {
     }
 
     // Delete the route
-    await redis.del(`api/results/${endpoint}`);
+    await deleteSnapshots(endpoint);
+    await deleteEndpointSettings(endpoint);
+    await deleteAllWebhooks(endpoint);
+    await deleteUsageAnalytics(endpoint);
+    await deleteValidationReport(endpoint);
+    await deleteSourceAuth(endpoint);
+    await deleteSpend(endpoint);
+    await removeEndpointFromKeys(endpoint);
 
     return NextResponse.json({
       success: true,
@@ -118,7 +141,15 @@ export async function DELETE(req: Request) {
 
 export async function PUT(req: Request) {
   try {
-    const { endpoint, urls, query, schema } = await req.json();
+    const admin = checkAdminToken(req);
+    if (!admin.ok) {
+      return NextResponse.json({
+        success: false,
+        error: admin.error
+      }, { status: admin.status });
+    }
+
+    const { endpoint, urls, query, schema, force } = await req.json();
 
     if (!endpoint || !urls || !query || !schema) {
       return NextResponse.json({
@@ -127,34 +158,17 @@ export async function PUT(req: Request) {
       }, { status: 400 });
     }
 
-    // Extract data using the provided configuration
-    const extractResponse = await fetch(`${process.env.VERCEL_URL || 'http://localhost:3000'}/api/extract`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ urls, query, schema })
-    });
-
-    const extractData = await extractResponse.json();
-    if (!extractData.success) {
-      throw new Error(extractData.error);
-    }
-
-    // Store the configuration and initial results
-    const configKey = `api/results/${endpoint}`;
-    await redis.set(configKey, {
-      urls,
-      query,
-      schema,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString()
-    });
+    // Extract and publish in the background; the job's result has the new version
+    const job = await createJob({ type: 'publish', endpoint, urls, query, schema, force: force === true });
+    await dispatchJob(job);
 
     return NextResponse.json({
       success: true,
-      message: 'Route deployed successfully',
-      data: extractData.data,
+      message: 'Deployment started',
+      jobId: job.id,
+      statusUrl: `/api/jobs/${job.id}`,
       url: `/api/results/${endpoint}`
-    });
+    }, { status: 202 });
   } catch (error) {
     console.error('Error:', error);
     return NextResponse.json(
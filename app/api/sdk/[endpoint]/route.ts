@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { generateSdk } from '@/utils/sdkGenerator';
+import { getCurrentSnapshot } from '@/utils/snapshots';
+
+export async function GET(req: Request, { params }: { params: { endpoint: string } }) {
+  try {
+    const snapshot = await getCurrentSnapshot(params.endpoint);
+    if (!snapshot?.metadata) {
+      return NextResponse.json({
+        success: false,
+        error: 'Route not found'
+      }, { status: 404 });
+    }
+
+    const baseUrl = process.env.API_ROUTE || 'http://localhost:3000';
+    return new NextResponse(generateSdk([{ endpoint: params.endpoint, snapshot }], baseUrl), {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${params.endpoint}-client.ts"`
+      }
+    });
+  } catch (error) {
+    console.error('Error generating SDK:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate SDK' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { generateSdk } from '@/utils/sdkGenerator';
+import { getCurrentSnapshot, listEndpoints, type StoredEndpoint } from '@/utils/snapshots';
+
+export const dynamic = 'force-dynamic';
+
+// One client covering every deployed endpoint
+export async function GET() {
+  try {
+    const endpoints: { endpoint: string; snapshot: StoredEndpoint }[] = [];
+    for (const endpoint of await listEndpoints()) {
+      const snapshot = await getCurrentSnapshot(endpoint);
+      if (snapshot?.metadata) {
+        endpoints.push({ endpoint, snapshot });
+      }
+    }
+
+    const baseUrl = process.env.API_ROUTE || 'http://localhost:3000';
+    return new NextResponse(generateSdk(endpoints, baseUrl), {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="llm-api-client.ts"'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating SDK:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate SDK' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { serve } from '@upstash/workflow/nextjs';
+import { deliverQueuedWebhooks } from '@/utils/webhooks';
+
+// Called by QStash when JOB_RUNNER is 'workflow'; each subscriber's delivery runs as its own step
+export const { POST } = serve<{ queueId: string }>(async context => {
+  await deliverQueuedWebhooks(context.requestPayload.queueId, (name, fn) => context.run(name, fn));
+});
@@ -5,15 +5,11 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { classNames } from '@/utils';
 import { CronScheduler } from '@/components/CronScheduler';
-import FirecrawlApp from "@mendable/firecrawl-js";
-import { z } from "zod";
+import { RoutesSidebar, type DeployedRoute } from '@/components/RoutesSidebar';
+import { ValidationSummary, type ValidationReport } from '@/components/ValidationSummary';
+import { JobProgress, pollJob, type ExtractJobResult, type JobState } from '@/components/JobProgress';
 
 // Types
-interface Route {
-  route: string;
-  created: string;
-}
-
 interface RouteConfig {
   urls: string[];
   schema: string;
@@ -30,31 +26,44 @@ interface SearchResult {
   selected: boolean;
 }
 
-interface JsonSchemaProperty {
-  type: string;
-  description?: string;
+interface SourceResult {
+  url: string;
+  success: boolean;
+  error?: string;
+  blocked?: boolean;
+  attempts: number;
+  durationMs: number;
+  pages?: { url: string; success: boolean; error?: string }[];
+}
+
+interface RobotsCheck {
+  url: string;
+  allowed: boolean;
+  crawlDelay: number | null;
+  reason?: string;
 }
 
-interface JsonSchema {
-  type: string;
-  properties: Record<string, JsonSchemaProperty>;
-  required?: string[];
+interface CrawlOptions {
+  enabled: boolean;
+  maxPages: number;
+  maxDepth: number;
+  pagination: 'none' | 'selector' | 'llm';
+  nextPageSelector: string;
+  dedupeKey: string;
 }
 
-interface ScrapeResult {
-  success: boolean;
-  data?: any;
-  error?: unknown;
+type MergeStrategy = 'first-non-null' | 'majority' | 'most-recent' | 'llm';
+
+interface FieldProvenance {
+  source: string | null;
+  agreeing: string[];
+  confidence: number;
+  strategy: MergeStrategy;
 }
 
 // Constants
 const EXAMPLE_QUERY = "Extract company details from websites";
 
-// Initialize Firecrawl
-const firecrawl = new FirecrawlApp({
-  apiKey: process.env.NEXT_PUBLIC_FIRECRAWL_API_KEY || ""
-});
-
 // Utility functions
 const getApiUrl = (path: string) => {
   const apiRoute = process.env.NEXT_PUBLIC_API_ROUTE || 'http://localhost:3000';
@@ -110,16 +119,36 @@ export default function Home() {
   const [schemaStr, setSchemaStr] = useState('');
   const [proposedSearchQuery, setProposedSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [robots, setRobots] = useState<Record<string, RobotsCheck>>({});
   const [extractedData, setExtractedData] = useState<any>(null);
+  const [extractionSources, setExtractionSources] = useState<SourceResult[]>([]);
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  const [provider, setProvider] = useState<'' | 'firecrawl' | 'llm' | 'fixture'>('');
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>('first-non-null');
+  const [onSourceFailure, setOnSourceFailure] = useState<'best-effort' | 'fail-all'>('best-effort');
+  const [minSuccessful, setMinSuccessful] = useState(1);
+  // Per-domain headers, cookies and basic auth as JSON; sent to the server, which stores them encrypted
+  const [sourceAuthStr, setSourceAuthStr] = useState('');
+  const [crawl, setCrawl] = useState<CrawlOptions>({
+    enabled: false,
+    maxPages: 10,
+    maxDepth: 0,
+    pagination: 'llm',
+    nextPageSelector: '',
+    dedupeKey: ''
+  });
+  const [provenance, setProvenance] = useState<Record<string, FieldProvenance> | null>(null);
+  const [rawValues, setRawValues] = useState<Record<string, unknown> | null>(null);
+  const [extractionJob, setExtractionJob] = useState<JobState | null>(null);
   const [routeInput, setRouteInput] = useState('');
   const [deployedRoute, setDeployedRoute] = useState('');
   const [isRouteAvailable, setIsRouteAvailable] = useState(true);
-  const [apiKey] = useState('sk_' + Math.random().toString(36).substr(2, 10));
+  const [apiKey, setApiKey] = useState('');
   const [isDeployed, setIsDeployed] = useState(false);
   const [showOverwriteConfirm, setShowOverwriteConfirm] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [warning, setWarning] = useState<string | null>(null);
-  const [routes, setRoutes] = useState<Route[]>([]);
+  const [routes, setRoutes] = useState<DeployedRoute[]>([]);
   const [cronSchedule, setCronSchedule] = useState('0 5 * * *');
   const [isSearching, setIsSearching] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -312,6 +341,22 @@ export default function Home() {
       });
   };
 
+  // Crawl settings as the API expects them; blank optional fields are sent as null
+  const crawlSettings = () => ({
+    ...crawl,
+    nextPageSelector: crawl.nextPageSelector.trim() || null,
+    dedupeKey: crawl.dedupeKey.trim() || null
+  });
+
+  const sourceAuth = () => {
+    if (!sourceAuthStr.trim()) return undefined;
+    try {
+      return JSON.parse(sourceAuthStr);
+    } catch {
+      throw new Error('Source credentials must be valid JSON');
+    }
+  };
+
   const handleExtractData = async () => {
     const selectedUrls = [
       ...searchResults.filter(r => r.selected).map(r => r.url),
@@ -329,64 +374,44 @@ export default function Home() {
     setTransitionMessage('Extracting data from sources...');
 
     try {
-      const schemaRequest = JSON.parse(schemaStr) as JsonSchema;
-      
-      console.log('OpenAI Generated Schema:', schemaRequest);
-
-      // Convert JSON Schema to Zod schema
-      const convertJsonSchemaToZod = (schema: JsonSchema) => {
-        if (!schema.properties) {
-          throw new Error('Invalid schema: missing properties');
-        }
+      const schemaRequest = JSON.parse(schemaStr);
 
-        const zodSchema: Record<string, z.ZodType> = {};
-        Object.entries(schema.properties).forEach(([key, value]) => {
-          if (typeof value === 'object' && value !== null) {
-            const propType = value.type;
-            zodSchema[key] = propType === 'string' ? z.string() :
-                            propType === 'boolean' ? z.boolean() :
-                            propType === 'number' ? z.number() :
-                            propType === 'integer' ? z.number().int() :
-                            z.any();
-            
-            if (value.description) {
-              zodSchema[key] = zodSchema[key].describe(value.description);
-            }
-          }
-        });
-
-        return z.object(zodSchema);
-      };
-
-      const zodSchema = convertJsonSchemaToZod(schemaRequest);
-      console.log('Converted Zod Schema:', zodSchema);
-
-      const scrapeResult: ScrapeResult = await firecrawl.extract(selectedUrls, {
-        prompt: query,
-        schema: zodSchema
+      // Extraction runs server-side as a background job so the Firecrawl key never reaches
+      // the browser and long runs don't hold a request open
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'extract',
+          urls: selectedUrls,
+          query,
+          schema: schemaRequest,
+          provider: provider || undefined,
+          merge: mergeStrategy,
+          sourcePolicy: { onFailure: onSourceFailure, minSuccessful },
+          crawl: crawlSettings(),
+          sourceAuth: sourceAuth()
+        })
       });
+      const submitted = await response.json();
+      if (!submitted.success) {
+        throw new Error(submitted.details?.[0]?.message || submitted.error || 'Failed to start extraction');
+      }
 
-      console.log('Scrape Result:', scrapeResult);
-
-      if (!scrapeResult.success) {
-        let errorMessage: string;
-        const err: unknown = scrapeResult.error;
-        
-        if (err && typeof err === 'object' && 'message' in err) {
-          errorMessage = (err as { message: string }).message;
-        } else if (err && typeof err === 'object') {
-          try {
-            errorMessage = JSON.stringify(err);
-          } catch {
-            errorMessage = 'Unknown error occurred';
-          }
-        } else {
-          errorMessage = String(err);
-        }
-        throw new Error(errorMessage);
+      setTransitionMessage('Extracting data from sources...');
+      const job = await pollJob(submitted.jobId, setExtractionJob);
+      // Failed jobs only keep the sources and validation report
+      const result: Partial<ExtractJobResult> = job.result || {};
+
+      setExtractionSources(result.sources || []);
+      setValidationReport(result.validation || null);
+      setProvenance(result.provenance || null);
+      setRawValues(result.raw || null);
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Extraction failed');
       }
 
-      setExtractedData(scrapeResult.data);
+      setExtractedData(result.data);
       setStep('extract');
       setCurrentStep(5);
     } catch (error) {
@@ -408,6 +433,7 @@ export default function Home() {
     } finally {
       setLoading(false);
       setIsTransitioning(false);
+      setExtractionJob(null);
     }
   };
 
@@ -533,6 +559,26 @@ export default function Home() {
     }
   };
 
+  // Flag results robots.txt won't let us fetch, so they aren't picked only to be skipped later
+  const resultUrls = searchResults.map(result => result.url).join('\n');
+  useEffect(() => {
+    const urls = resultUrls ? resultUrls.split('\n') : [];
+    if (urls.length === 0) return;
+
+    fetch('/api/robots', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ urls })
+    })
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) {
+          setRobots(Object.fromEntries(data.results.map((check: RobotsCheck) => [check.url, check])));
+        }
+      })
+      .catch(error => console.error('Error checking robots.txt:', error));
+  }, [resultUrls]);
+
   const toggleResult = (index: number) => {
     setSearchResults(prev =>
       prev.map((result, i) =>
@@ -661,7 +707,7 @@ export default function Home() {
       const response = await fetch('/api/routes');
       const data = await response.json();
       if (data.success && data.routes) {
-        return data.routes.some((r: any) => r.route === route);
+        return data.routes.some((r: DeployedRoute) => r.endpoint === route);
       }
     } catch (e) {
       console.error('Failed to check routes:', e);
@@ -724,10 +770,18 @@ export default function Home() {
               ...searchResults.filter(r => r.selected).map(r => r.url),
               ...(customUrl ? [customUrl] : [])
             ],
-            lastUpdated: new Date().toISOString()
+            lastUpdated: new Date().toISOString(),
+            ...(provenance && { provenance }),
+            ...(rawValues && Object.keys(rawValues).length > 0 && { raw: rawValues })
           }
         },
-        route: cleanRoute
+        route: cleanRoute,
+        schedule: cronSchedule,
+        provider: provider || undefined,
+        merge: mergeStrategy,
+        sourcePolicy: { onFailure: onSourceFailure, minSuccessful },
+        crawl: crawlSettings(),
+        sourceAuth: sourceAuth()
       };
 
       const response = await fetch('/api/deploy', {
@@ -740,6 +794,9 @@ export default function Home() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.validation) {
+          setValidationReport(errorData.validation);
+        }
         throw new Error(errorData.error || 'Failed to deploy API');
       }
 
@@ -749,6 +806,7 @@ export default function Home() {
       }
 
       setDeployedRoute(`/api/results/${cleanRoute}`);
+      setApiKey(data.apiKey);
       setIsDeployed(true);
       setStep('deploy');
       setCurrentStep(5);
@@ -825,6 +883,11 @@ export default function Home() {
                 </div>
                 <h3 className="text-xl font-medium text-white mb-2">{transitionMessage}</h3>
                 <p className="text-white/60">Please wait while we process your request...</p>
+                {extractionJob && (
+                  <div className="mt-6 w-96 max-w-full mx-auto">
+                    <JobProgress job={extractionJob} />
+                  </div>
+                )}
               </div>
             </motion.div>
           )}
@@ -1052,6 +1115,134 @@ export default function Home() {
                         <span className="text-sm">Custom URL is set</span>
                       </div>
                     )}
+                    <div className="flex items-center space-x-3">
+                      <label htmlFor="provider" className="text-sm text-white/60">Extraction provider</label>
+                      <select
+                        id="provider"
+                        value={provider}
+                        onChange={(e) => setProvider(e.target.value as typeof provider)}
+                        className="bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                      >
+                        <option value="">Server default</option>
+                        <option value="firecrawl">Firecrawl</option>
+                        <option value="llm">Fetch + LLM</option>
+                        <option value="fixture">Local fixtures</option>
+                      </select>
+                      <label htmlFor="merge-strategy" className="text-sm text-white/60">Merge sources by</label>
+                      <select
+                        id="merge-strategy"
+                        value={mergeStrategy}
+                        onChange={(e) => setMergeStrategy(e.target.value as MergeStrategy)}
+                        className="bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                      >
+                        <option value="first-non-null">First non-null</option>
+                        <option value="majority">Majority vote</option>
+                        <option value="most-recent">Most recent</option>
+                        <option value="llm">LLM reconciliation</option>
+                      </select>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <label htmlFor="source-failure" className="text-sm text-white/60">If a source fails</label>
+                      <select
+                        id="source-failure"
+                        value={onSourceFailure}
+                        onChange={(e) => setOnSourceFailure(e.target.value as typeof onSourceFailure)}
+                        className="bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                      >
+                        <option value="best-effort">Use the others</option>
+                        <option value="fail-all">Fail the extraction</option>
+                      </select>
+                      {onSourceFailure === 'best-effort' && (
+                        <>
+                          <label htmlFor="min-successful" className="text-sm text-white/60">Minimum successful sources</label>
+                          <input
+                            id="min-successful"
+                            type="number"
+                            min={1}
+                            value={minSuccessful}
+                            onChange={(e) => setMinSuccessful(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                            className="w-20 bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                          />
+                        </>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label className="flex items-center space-x-2 text-sm text-white/60">
+                        <input
+                          type="checkbox"
+                          checked={crawl.enabled}
+                          onChange={(e) => setCrawl({ ...crawl, enabled: e.target.checked })}
+                          className="accent-emerald-500"
+                        />
+                        <span>Crawl from each source</span>
+                      </label>
+                      {crawl.enabled && (
+                        <>
+                          <label htmlFor="crawl-max-pages" className="text-sm text-white/60">Max pages</label>
+                          <input
+                            id="crawl-max-pages"
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={crawl.maxPages}
+                            onChange={(e) => setCrawl({ ...crawl, maxPages: Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                            className="w-20 bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                          />
+                          <label htmlFor="crawl-depth" className="text-sm text-white/60">Link depth</label>
+                          <input
+                            id="crawl-depth"
+                            type="number"
+                            min={0}
+                            max={5}
+                            value={crawl.maxDepth}
+                            onChange={(e) => setCrawl({ ...crawl, maxDepth: Math.min(5, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                            className="w-20 bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                          />
+                          <label htmlFor="crawl-pagination" className="text-sm text-white/60">Next page</label>
+                          <select
+                            id="crawl-pagination"
+                            value={crawl.pagination}
+                            onChange={(e) => setCrawl({ ...crawl, pagination: e.target.value as CrawlOptions['pagination'] })}
+                            className="bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                          >
+                            <option value="none">Don&apos;t paginate</option>
+                            <option value="selector">CSS selector</option>
+                            <option value="llm">Detect with the model</option>
+                          </select>
+                          {crawl.pagination === 'selector' && (
+                            <input
+                              type="text"
+                              value={crawl.nextPageSelector}
+                              onChange={(e) => setCrawl({ ...crawl, nextPageSelector: e.target.value })}
+                              placeholder="a[rel=next]"
+                              className="w-40 bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                            />
+                          )}
+                          <input
+                            type="text"
+                            value={crawl.dedupeKey}
+                            onChange={(e) => setCrawl({ ...crawl, dedupeKey: e.target.value })}
+                            placeholder="Dedupe key (optional)"
+                            className="w-44 bg-white/5 border border-white/10 rounded-lg text-sm text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                          />
+                        </>
+                      )}
+                    </div>
+                    <details className="text-sm text-white/60">
+                      <summary className="cursor-pointer">Source credentials</summary>
+                      <p className="mt-2 text-xs text-white/40">
+                        Headers, cookies and basic auth per domain, e.g.{' '}
+                        <code>{'{"example.com": {"headers": {"X-Api-Key": "..."}, "cookies": {"session": "..."}, "basicAuth": {"username": "...", "password": "..."}}}'}</code>.
+                        Stored encrypted with the endpoint and never shown again.
+                      </p>
+                      <textarea
+                        value={sourceAuthStr}
+                        onChange={(e) => setSourceAuthStr(e.target.value)}
+                        rows={4}
+                        spellCheck={false}
+                        className="mt-2 w-full bg-white/5 border border-white/10 rounded-lg text-xs font-mono text-white px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                      />
+                    </details>
                   </div>
                 </div>
               </div>
@@ -1088,6 +1279,16 @@ export default function Home() {
                               <h4 className="font-medium text-white">{result.title}</h4>
                               <p className="mt-1 text-sm text-white/60">{result.snippet}</p>
                               <p className="mt-2 text-xs text-white/40">{result.url}</p>
+                              {robots[result.url] && !robots[result.url].allowed && (
+                                <p className="mt-2 text-xs text-red-400">
+                                  {robots[result.url].reason}; this source will be skipped
+                                </p>
+                              )}
+                              {robots[result.url]?.allowed && robots[result.url].crawlDelay && (
+                                <p className="mt-2 text-xs text-white/40">
+                                  Crawl-delay {robots[result.url].crawlDelay}s; extraction from this site will be slower
+                                </p>
+                              )}
                             </div>
                             <div className="flex items-center space-x-2">
                               <div className={`p-1.5 rounded-md ${result.selected
@@ -1156,6 +1357,64 @@ export default function Home() {
                           {JSON.stringify(extractedData, null, 2)}
                         </pre>
                       )}
+                      {provenance && Object.keys(provenance).length > 0 && extractionSources.length > 1 && (
+                        <table className="w-full text-xs text-left">
+                          <thead className="text-white/40">
+                            <tr>
+                              <th className="py-1 font-normal">Field</th>
+                              <th className="py-1 font-normal">Source</th>
+                              <th className="py-1 font-normal">Confidence</th>
+                            </tr>
+                          </thead>
+                          <tbody className="text-white/80">
+                            {Object.entries(provenance).map(([field, entry]) => (
+                              <tr key={field}>
+                                <td className="py-0.5 font-mono">{field}</td>
+                                <td className="py-0.5 truncate max-w-xs" title={entry.source || undefined}>
+                                  {entry.source ? new URL(entry.source).hostname : '—'}
+                                </td>
+                                <td className="py-0.5">{Math.round(entry.confidence * 100)}%</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {validationReport && <ValidationSummary report={validationReport} />}
+                      {extractionSources.some(source => source.blocked) && (
+                        <div className="text-sm text-red-400 space-y-1">
+                          <p>Skipped because robots.txt doesn&apos;t allow fetching them:</p>
+                          <ul className="list-disc list-inside text-xs">
+                            {extractionSources.filter(source => source.blocked).map(source => (
+                              <li key={source.url} className="break-all">{source.url}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {extractionSources.some(source => !source.success && !source.blocked) && (
+                        <div className="text-sm text-amber-400 space-y-1">
+                          <p>
+                            Data from {extractionSources.filter(source => source.success).length} of {extractionSources.length} sources;
+                            these could not be extracted:
+                          </p>
+                          <ul className="list-disc list-inside text-xs">
+                            {extractionSources.filter(source => !source.success && !source.blocked).map(source => (
+                              <li key={source.url} className="break-all">
+                                {source.url}: {source.error}
+                                {source.attempts > 1 && ` (${source.attempts} attempts)`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {extractionSources.some(source => source.pages) && (
+                        <ul className="text-xs text-white/40 space-y-1">
+                          {extractionSources.filter(source => source.pages).map(source => (
+                            <li key={source.url} className="break-all">
+                              Crawled {source.pages!.filter(page => page.success).length} of {source.pages!.length} pages from {source.url}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                     <div className="flex justify-between items-center">
                       <button
@@ -1282,6 +1541,16 @@ export default function Home() {
                                   </svg>
                                 </button>
                               </div>
+                              <p className="text-xs text-amber-400">
+                                Copy your API key now. It is stored hashed and will not be shown again.
+                              </p>
+                              <a
+                                href={deployedRoute.replace('/api/results/', '/api/sdk/')}
+                                download
+                                className="inline-block mt-2 text-sm text-emerald-500 hover:text-emerald-400"
+                              >
+                                Download typed TypeScript client
+                              </a>
                             </div>
                           </div>
                         </div>
@@ -1295,6 +1564,26 @@ export default function Home() {
         </AnimatePresence>
       </div>
 
+      {/* Routes Sidebar */}
+      <RoutesSidebar
+        routes={routes}
+        isOpen={isSidebarOpen}
+        onClose={() => setIsSidebarOpen(false)}
+      />
+
+      <button
+        onClick={() => {
+          fetchRoutes();
+          setIsSidebarOpen(true);
+        }}
+        className="fixed bottom-6 left-6 p-3 bg-white/5 hover:bg-white/10 rounded-full text-white/60 hover:text-white transition-all z-40"
+        title="Your APIs"
+      >
+        <svg className="w-6 h-6" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 6h16M4 12h16M4 18h16" />
+        </svg>
+      </button>
+
       {/* Settings Button */}
       <button
         onClick={() => setShowSettings(true)}
@@ -1324,13 +1613,12 @@ export default function Home() {
                   onScheduleChange={async (schedule) => {
                     setCronSchedule(schedule);
                     try {
-                      const response = await fetch('/api/update-cron', {
-                        method: 'POST',
+                      if (!isDeployed) return;
+                      const endpoint = deployedRoute.replace('/api/results/', '');
+                      const response = await fetch(`/api/routes/${endpoint}`, {
+                        method: 'PATCH',
                         headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({
-                          schedule,
-                          path: `/api/results/${routeInput}`
-                        })
+                        body: JSON.stringify({ settings: { schedule } })
                       });
                       if (!response.ok) throw new Error('Failed to update cron schedule');
                     } catch (error) {
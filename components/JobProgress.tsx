@@ -0,0 +1,157 @@
+import type { ValidationReport } from '@/components/ValidationSummary';
+
+export interface JobSourceProgress {
+  url: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed';
+  error?: string;
+  blocked?: boolean;
+  attempts?: number;
+  durationMs?: number;
+  pages?: number;
+  cached?: boolean;
+}
+
+export interface JobSourceResult {
+  url: string;
+  success: boolean;
+  error?: string;
+  blocked?: boolean;
+  attempts: number;
+  durationMs: number;
+  cached?: boolean;
+  pages?: { url: string; success: boolean; error?: string }[];
+}
+
+interface JobCacheStats {
+  hits: number;
+  misses: number;
+  forced: boolean;
+}
+
+// An extract job's preview of the merged data, before it is published
+export interface ExtractJobResult {
+  data: Record<string, unknown>;
+  sources: JobSourceResult[];
+  provider: 'firecrawl' | 'llm' | 'fixture';
+  merge: 'first-non-null' | 'majority' | 'most-recent' | 'llm';
+  cache?: JobCacheStats;
+  provenance: Record<string, {
+    source: string | null;
+    agreeing: string[];
+    confidence: number;
+    strategy: 'first-non-null' | 'majority' | 'most-recent' | 'llm';
+  }>;
+  raw: Record<string, unknown>;
+  validation: ValidationReport;
+}
+
+// The version a publish or rescrape job published
+export interface PublishJobResult {
+  version: number;
+  url: string;
+  sources: JobSourceResult[];
+  cache?: JobCacheStats;
+  validation?: ValidationReport;
+}
+
+// What a failed job kept to explain the failure
+export interface FailedJobResult {
+  sources?: JobSourceResult[];
+  validation?: ValidationReport;
+}
+
+export type JobResult = ExtractJobResult | PublishJobResult | FailedJobResult;
+
+export interface JobState {
+  id: string;
+  type: 'extract' | 'rescrape' | 'publish';
+  endpoint: string | null;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  createdAt: string;
+  completedAt?: string;
+  error?: string;
+  result?: JobResult;
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+    sources: JobSourceProgress[];
+  };
+  logs: { at: string; level: 'info' | 'warn' | 'error'; message: string }[];
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const SOURCE_STYLES: Record<JobSourceProgress['status'], string> = {
+  pending: 'text-white/40',
+  running: 'text-amber-400',
+  succeeded: 'text-emerald-400',
+  failed: 'text-red-400'
+};
+
+const LOG_STYLES = {
+  info: 'text-white/40',
+  warn: 'text-amber-400',
+  error: 'text-red-400'
+};
+
+// Poll a job until it finishes, reporting every update; resolves with the finished job
+export async function pollJob(jobId: string, onUpdate: (job: JobState) => void): Promise<JobState> {
+  for (;;) {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to fetch job');
+    }
+
+    onUpdate(data.job);
+    if (data.job.status === 'succeeded' || data.job.status === 'failed') {
+      return data.job;
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+export function JobProgress({ job, showLogs = true }: { job: JobState; showLogs?: boolean }) {
+  const { total, completed } = job.progress;
+  const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  return (
+    <div className="space-y-3 text-xs text-left">
+      <div>
+        <div className="flex items-center justify-between text-white/60 mb-1">
+          <span className="capitalize">{job.status}</span>
+          <span>{completed}/{total} sources</span>
+        </div>
+        <div className="h-1.5 bg-white/10 rounded">
+          <div className="h-1.5 bg-emerald-500 rounded transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {job.progress.sources.map(source => (
+          <li key={source.url} className="flex items-center justify-between space-x-2">
+            <span className="truncate text-white/60" title={source.url}>{source.url}</span>
+            <span className={SOURCE_STYLES[source.status]} title={source.error}>
+              {source.blocked ? 'blocked by robots.txt' : source.status}
+              {source.cached && ' · cached'}
+              {source.pages !== undefined && ` · ${source.pages} pages`}
+              {source.attempts !== undefined && source.attempts > 1 && ` · ${source.attempts} attempts`}
+              {source.durationMs !== undefined && ` · ${(source.durationMs / 1000).toFixed(1)}s`}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {showLogs && job.logs.length > 0 && (
+        <ul className="max-h-32 overflow-auto space-y-0.5 font-mono">
+          {job.logs.map((log, index) => (
+            <li key={index} className={LOG_STYLES[log.level]}>
+              {new Date(log.at).toLocaleTimeString()} {log.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { WebhooksPanel } from '@/components/WebhooksPanel';
+import { Sparkline, UsagePanel, type EndpointUsage } from '@/components/UsagePanel';
+import { ValidationSummary, type ValidationReport } from '@/components/ValidationSummary';
+import { JobProgress, pollJob, type JobState } from '@/components/JobProgress';
+
+// Estimated model spend this month
+interface BudgetStatus {
+  monthlyUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface DeployedRoute {
+  endpoint: string;
+  url: string;
+  config: {
+    metadata?: {
+      lastUpdated?: string;
+      version?: number;
+      sources?: string[];
+    };
+  };
+  spend?: BudgetStatus;
+}
+
+interface RouteSpend {
+  month: { calls: number; promptTokens: number; completionTokens: number; costUsd: number; unpricedCalls: number };
+  breakdown: { operation: Record<string, number>; model: Record<string, number> };
+  budget: BudgetStatus;
+}
+
+interface DiffOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+  oldValue?: unknown;
+}
+
+interface RouteChanges {
+  from: { version: number; createdAt: string };
+  to: { version: number; createdAt: string };
+  summary: { added: number; removed: number; changed: number; total: number };
+  operations: DiffOperation[];
+}
+
+// Names only; credential values never leave the server
+interface SourceAuthSummary {
+  domain: string;
+  headers: string[];
+  cookies: string[];
+  basicAuth: boolean;
+}
+
+interface RoutesSidebarProps {
+  routes: DeployedRoute[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const OP_STYLES: Record<DiffOperation['op'], string> = {
+  add: 'text-emerald-400',
+  remove: 'text-red-400',
+  replace: 'text-amber-400'
+};
+
+const OP_SYMBOLS: Record<DiffOperation['op'], string> = {
+  add: '+',
+  remove: '−',
+  replace: '~'
+};
+
+const preview = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const usd = (value: number) => `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+function SpendSummary({ spend }: { spend: RouteSpend | null }) {
+  if (!spend || spend.month.calls === 0) {
+    return <p className="text-xs text-white/40">No model calls this month.</p>;
+  }
+
+  const { month, breakdown, budget } = spend;
+  return (
+    <div className="space-y-1 text-xs text-white/60">
+      <p>
+        <span className={budget.exceeded ? 'text-red-400' : 'text-white'}>{usd(month.costUsd)}</span>
+        {budget.monthlyUsd !== null && ` of ${usd(budget.monthlyUsd)} budget`}
+        {` · ${month.calls} calls · ${(month.promptTokens + month.completionTokens).toLocaleString()} tokens`}
+      </p>
+      {budget.exceeded && <p className="text-red-400">Budget reached; scheduled rescrapes are paused until next month.</p>}
+      {Object.keys(breakdown.operation).length > 0 && (
+        <p>
+          {Object.entries(breakdown.operation)
+            .sort(([, a], [, b]) => b - a)
+            .map(([operation, cost]) => `${operation} ${usd(cost)}`)
+            .join(' · ')}
+        </p>
+      )}
+      {month.unpricedCalls > 0 && (
+        <p className="text-amber-400">{month.unpricedCalls} call(s) had no price (Firecrawl without FIRECRAWL_CALL_USD, or models missing from the price table).</p>
+      )}
+    </div>
+  );
+}
+
+function SourceAuthList({ credentials }: { credentials: SourceAuthSummary[] }) {
+  if (credentials.length === 0) {
+    return <p className="text-xs text-white/40">Sources are fetched without credentials.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {credentials.map(entry => (
+        <li key={entry.domain} className="text-white/60">
+          <span className="text-white">{entry.domain}</span>
+          {entry.headers.length > 0 && ` · headers: ${entry.headers.join(', ')}`}
+          {entry.cookies.length > 0 && ` · cookies: ${entry.cookies.join(', ')}`}
+          {entry.basicAuth && ' · basic auth'}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ChangesList({ changes }: { changes: RouteChanges | null }) {
+  if (!changes) {
+    return <p className="text-xs text-white/40">No previous snapshot to compare against yet.</p>;
+  }
+
+  if (changes.summary.total === 0) {
+    return (
+      <p className="text-xs text-white/40">
+        No changes between v{changes.from.version} and v{changes.to.version}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-white/60">
+        v{changes.from.version} → v{changes.to.version}:{' '}
+        <span className="text-emerald-400">{changes.summary.added} added</span>,{' '}
+        <span className="text-red-400">{changes.summary.removed} removed</span>,{' '}
+        <span className="text-amber-400">{changes.summary.changed} changed</span>
+      </p>
+      <ul className="max-h-64 overflow-auto space-y-1 font-mono text-xs">
+        {changes.operations.map((op, index) => (
+          <li key={index} className={OP_STYLES[op.op]}>
+            {OP_SYMBOLS[op.op]} {op.path || '/'}
+            {op.op === 'replace' && (
+              <span className="text-white/40"> {preview(op.oldValue)} → {preview(op.value)}</span>
+            )}
+            {op.op === 'add' && <span className="text-white/40"> {preview(op.value)}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function RoutesSidebar({ routes, isOpen, onClose }: RoutesSidebarProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [changes, setChanges] = useState<Record<string, RouteChanges | null>>({});
+  const [validation, setValidation] = useState<Record<string, ValidationReport | null>>({});
+  const [credentials, setCredentials] = useState<Record<string, SourceAuthSummary[]>>({});
+  const [spend, setSpend] = useState<Record<string, RouteSpend | null>>({});
+  const [loadingRoute, setLoadingRoute] = useState<string | null>(null);
+  const [usage, setUsage] = useState<Record<string, EndpointUsage | null>>({});
+  const [rescrapes, setRescrapes] = useState<Record<string, JobState | null>>({});
+  const [rescrapeErrors, setRescrapeErrors] = useState<Record<string, string | null>>({});
+
+  // Usage feeds the sparklines next to every route, so it is loaded whenever the sidebar opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    routes.forEach(async route => {
+      try {
+        const response = await fetch(`/api/routes/${route.endpoint}/usage?hours=24&days=14`);
+        const data = await response.json();
+        if (data.success) {
+          setUsage(prev => ({ ...prev, [route.endpoint]: data }));
+        }
+      } catch (error) {
+        console.error('Error loading route usage:', error);
+      }
+    });
+  }, [isOpen, routes]);
+
+  const toggleRoute = async (endpoint: string) => {
+    if (expanded === endpoint) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(endpoint);
+    setLoadingRoute(endpoint);
+    try {
+      await loadDetails(endpoint);
+    } finally {
+      setLoadingRoute(null);
+    }
+  };
+
+  const loadDetails = async (endpoint: string) => {
+    try {
+      const response = await fetch(`/api/routes/${endpoint}`);
+      const data = await response.json();
+      if (data.success) {
+        setChanges(prev => ({ ...prev, [endpoint]: data.changes }));
+        setValidation(prev => ({ ...prev, [endpoint]: data.validation }));
+        setCredentials(prev => ({ ...prev, [endpoint]: data.sourceAuth || [] }));
+      }
+    } catch (error) {
+      console.error('Error loading route changes:', error);
+    }
+
+    try {
+      const response = await fetch(`/api/routes/${endpoint}/spend?days=30`);
+      const data = await response.json();
+      if (data.success) {
+        setSpend(prev => ({ ...prev, [endpoint]: data }));
+      }
+    } catch (error) {
+      console.error('Error loading route spend:', error);
+    }
+  };
+
+  // Rescrapes run as background jobs; poll until done, then refresh the changes and validation
+  const rescrape = async (endpoint: string, force = false) => {
+    setRescrapeErrors(prev => ({ ...prev, [endpoint]: null }));
+    try {
+      const response = await fetch('/api/routes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint, force })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to start rescrape');
+      }
+
+      const job = await pollJob(data.jobId, update => setRescrapes(prev => ({ ...prev, [endpoint]: update })));
+      if (job.status === 'failed') {
+        setRescrapeErrors(prev => ({ ...prev, [endpoint]: job.error || 'Rescrape failed' }));
+      }
+      await loadDetails(endpoint);
+    } catch (error) {
+      console.error('Error rescraping route:', error);
+      setRescrapeErrors(prev => ({ ...prev, [endpoint]: error instanceof Error ? error.message : 'Rescrape failed' }));
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.aside
+          initial={{ x: -400 }}
+          animate={{ x: 0 }}
+          exit={{ x: -400 }}
+          className="fixed inset-y-0 left-0 z-50 w-96 bg-gray-900/95 backdrop-blur-xl border-r border-white/10 p-6 overflow-y-auto"
+        >
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-medium text-white">Your APIs</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {routes.length > 0 && (
+            <a
+              href="/api/sdk"
+              download
+              className="block mb-4 px-4 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-sm text-white/80 text-center"
+            >
+              Download TypeScript client for all APIs
+            </a>
+          )}
+
+          {routes.length === 0 ? (
+            <p className="text-sm text-white/60">No APIs deployed yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {routes.map(route => (
+                <li key={route.endpoint} className="bg-white/5 rounded-lg border border-white/10">
+                  <button
+                    onClick={() => toggleRoute(route.endpoint)}
+                    className="w-full text-left px-4 py-3 hover:bg-white/5 rounded-lg"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-emerald-500">/{route.endpoint}</span>
+                      {usage[route.endpoint] && (
+                        <span className="flex items-center space-x-2 text-xs text-white/40" title="Requests in the last 24 hours">
+                          <Sparkline values={usage[route.endpoint]!.hourly.map(b => b.requests)} width={64} height={16} />
+                          <span>{usage[route.endpoint]!.hourly.reduce((sum, b) => sum + b.requests, 0)}</span>
+                        </span>
+                      )}
+                    </div>
+                    <div className="mt-1 text-xs text-white/40">
+                      {route.config.metadata?.version !== undefined && `v${route.config.metadata.version} · `}
+                      {route.config.metadata?.lastUpdated
+                        ? `Updated ${new Date(route.config.metadata.lastUpdated).toLocaleString()}`
+                        : 'Never updated'}
+                      {route.spend && (
+                        <span className={route.spend.exceeded ? 'text-red-400' : undefined} title="Estimated model spend this month">
+                          {` · ${usd(route.spend.spentUsd)}`}
+                          {route.spend.monthlyUsd !== null && ` / ${usd(route.spend.monthlyUsd)}`}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                  {expanded === route.endpoint && (
+                    <div className="px-4 pb-4 border-t border-white/10 pt-3">
+                      <div className="flex items-center space-x-3 mb-4 text-xs">
+                        <a href={`/api/sdk/${route.endpoint}`} download className="text-emerald-500 hover:text-emerald-400">
+                          TypeScript client
+                        </a>
+                        <a href={`/api/openapi/${route.endpoint}`} target="_blank" rel="noopener noreferrer" className="text-emerald-500 hover:text-emerald-400">
+                          OpenAPI
+                        </a>
+                        <button
+                          onClick={() => rescrape(route.endpoint)}
+                          disabled={rescrapes[route.endpoint]?.status === 'queued' || rescrapes[route.endpoint]?.status === 'running'}
+                          className="text-emerald-500 hover:text-emerald-400 disabled:text-white/40"
+                        >
+                          Rescrape now
+                        </button>
+                        <button
+                          onClick={() => rescrape(route.endpoint, true)}
+                          disabled={rescrapes[route.endpoint]?.status === 'queued' || rescrapes[route.endpoint]?.status === 'running'}
+                          title="Extract every page again, even if it hasn't changed"
+                          className="text-emerald-500 hover:text-emerald-400 disabled:text-white/40"
+                        >
+                          Force refresh
+                        </button>
+                      </div>
+                      {rescrapes[route.endpoint] && (
+                        <div className="mb-4">
+                          <JobProgress job={rescrapes[route.endpoint]!} showLogs={false} />
+                        </div>
+                      )}
+                      {rescrapeErrors[route.endpoint] && (
+                        <p className="mb-4 text-xs text-red-400">{rescrapeErrors[route.endpoint]}</p>
+                      )}
+                      <h3 className="text-xs font-medium text-white/60 uppercase tracking-wide mb-2">Usage</h3>
+                      <UsagePanel usage={usage[route.endpoint] ?? null} />
+                      <h3 className="text-xs font-medium text-white/60 uppercase tracking-wide mt-4 mb-2">Model spend</h3>
+                      {loadingRoute === route.endpoint ? (
+                        <p className="text-xs text-white/40">Loading...</p>
+                      ) : (
+                        <SpendSummary spend={spend[route.endpoint] ?? null} />
+                      )}
+                      <h3 className="text-xs font-medium text-white/60 uppercase tracking-wide mt-4 mb-2">Latest changes</h3>
+                      {loadingRoute === route.endpoint ? (
+                        <p className="text-xs text-white/40">Loading...</p>
+                      ) : (
+                        <ChangesList changes={changes[route.endpoint] ?? null} />
+                      )}
+                      <h3 className="text-xs font-medium text-white/60 uppercase tracking-wide mt-4 mb-2">Validation</h3>
+                      {loadingRoute === route.endpoint ? (
+                        <p className="text-xs text-white/40">Loading...</p>
+                      ) : (
+                        <ValidationSummary report={validation[route.endpoint] ?? null} />
+                      )}
+                      <h3 className="text-xs font-medium text-white/60 uppercase tracking-wide mt-4 mb-2">Source credentials</h3>
+                      {loadingRoute === route.endpoint ? (
+                        <p className="text-xs text-white/40">Loading...</p>
+                      ) : (
+                        <SourceAuthList credentials={credentials[route.endpoint] ?? []} />
+                      )}
+                      <h3 className="text-xs font-medium text-white/60 uppercase tracking-wide mt-4 mb-2">Webhooks</h3>
+                      <WebhooksPanel endpoint={route.endpoint} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </motion.aside>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,109 @@
+export interface UsageBucket {
+  bucket: string;
+  requests: number;
+  errors: number;
+  bytes: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+export interface EndpointUsage {
+  hourly: UsageBucket[];
+  daily: UsageBucket[];
+  totals: { requests: number; errors: number; bytes: number; p50: number | null; p95: number | null };
+  breakdown: {
+    status: Record<string, number>;
+    format: Record<string, number>;
+    key: Record<string, number>;
+  };
+}
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+export function Sparkline({ values, width = 96, height = 24, className = 'text-emerald-500' }: SparklineProps) {
+  if (values.length < 2) {
+    return <svg width={width} height={height} />;
+  }
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, i) => `${(i * step).toFixed(1)},${(height - 1 - (value / max) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className={className} aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatLatency = (ms: number | null) => (ms === null ? '—' : `${ms} ms`);
+
+export function UsagePanel({ usage }: { usage: EndpointUsage | null }) {
+  if (!usage) {
+    return <p className="text-xs text-white/40">No usage recorded yet.</p>;
+  }
+
+  const last24h = usage.hourly.reduce((sum, b) => sum + b.requests, 0);
+  const topKeys = Object.entries(usage.breakdown.key).sort((a, b) => b[1] - a[1]).slice(0, 3);
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-white/5 rounded p-2">
+          <div className="text-white/40">Last {usage.hourly.length}h</div>
+          <div className="text-white/80">{last24h} requests</div>
+          <Sparkline values={usage.hourly.map(b => b.requests)} width={140} />
+        </div>
+        <div className="bg-white/5 rounded p-2">
+          <div className="text-white/40">Last {usage.daily.length} days</div>
+          <div className="text-white/80">{usage.totals.requests} requests</div>
+          <Sparkline values={usage.daily.map(b => b.requests)} width={140} />
+        </div>
+        <div className="bg-white/5 rounded p-2">
+          <div className="text-white/40">Latency p50 / p95</div>
+          <div className="text-white/80">
+            {formatLatency(usage.totals.p50)} / {formatLatency(usage.totals.p95)}
+          </div>
+          <Sparkline values={usage.hourly.map(b => b.p95 ?? 0)} width={140} className="text-amber-400" />
+        </div>
+        <div className="bg-white/5 rounded p-2">
+          <div className="text-white/40">Errors · Transfer</div>
+          <div className="text-white/80">
+            {usage.totals.errors} · {formatBytes(usage.totals.bytes)}
+          </div>
+          <Sparkline values={usage.hourly.map(b => b.errors)} width={140} className="text-red-400" />
+        </div>
+      </div>
+      {Object.keys(usage.breakdown.status).length > 0 && (
+        <div className="text-white/60">
+          Status:{' '}
+          {Object.entries(usage.breakdown.status).map(([status, count]) => `${status} × ${count}`).join(', ')}
+        </div>
+      )}
+      {Object.keys(usage.breakdown.format).length > 0 && (
+        <div className="text-white/60">
+          Formats:{' '}
+          {Object.entries(usage.breakdown.format).map(([format, count]) => `${format} × ${count}`).join(', ')}
+        </div>
+      )}
+      {topKeys.length > 0 && (
+        <div className="text-white/60">
+          Top keys: {topKeys.map(([id, count]) => `${id} × ${count}`).join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  status: 'valid' | 'repaired' | 'rejected';
+  checkedAt: string;
+  issues: ValidationIssue[];
+  remainingIssues: ValidationIssue[];
+  repairAttempted: boolean;
+  repairError?: string;
+  normalized?: string[];
+  version?: number;
+}
+
+const STATUS_STYLES: Record<ValidationReport['status'], string> = {
+  valid: 'text-emerald-400',
+  repaired: 'text-amber-400',
+  rejected: 'text-red-400'
+};
+
+const STATUS_LABELS: Record<ValidationReport['status'], string> = {
+  valid: 'Matches the schema',
+  repaired: 'Repaired to match the schema',
+  rejected: 'Does not match the schema'
+};
+
+export function ValidationSummary({ report }: { report: ValidationReport | null }) {
+  if (!report) {
+    return <p className="text-xs text-white/40">No validation report yet.</p>;
+  }
+
+  // Rejected runs list what is still wrong; repaired runs list what was fixed
+  const issues = report.status === 'rejected' ? report.remainingIssues : report.issues;
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className={STATUS_STYLES[report.status]}>
+        {STATUS_LABELS[report.status]}
+        {report.version !== undefined && ` · v${report.version}`}
+        <span className="text-white/40"> · {new Date(report.checkedAt).toLocaleString()}</span>
+      </p>
+      {report.status === 'rejected' && (
+        <p className="text-white/60">
+          {report.repairAttempted
+            ? <>The previous snapshot was kept.{report.repairError && ` Repair failed: ${report.repairError}`}</>
+            : 'Deploying will try one repair pass before publishing.'}
+        </p>
+      )}
+      {report.normalized && report.normalized.length > 0 && (
+        <p className="text-white/60" title={report.normalized.join('\n')}>
+          Normalized {report.normalized.length} {report.normalized.length === 1 ? 'value' : 'values'}
+        </p>
+      )}
+      {issues.length > 0 && (
+        <ul className="max-h-40 overflow-auto font-mono space-y-0.5 text-white/60">
+          {issues.map((issue, index) => (
+            <li key={index}>
+              <span className="text-white/80">{issue.path}</span>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+
+interface Webhook {
+  id: string;
+  url: string;
+  createdAt: string;
+}
+
+interface Delivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  success: boolean;
+  attempts: { status?: number; error?: string }[];
+  createdAt: string;
+}
+
+export function WebhooksPanel({ endpoint }: { endpoint: string }) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [newUrl, setNewUrl] = useState('');
+  const [secret, setSecret] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadWebhooks = async () => {
+    try {
+      const response = await fetch(`/api/routes/${endpoint}/webhooks`);
+      const data = await response.json();
+      if (data.success) {
+        setWebhooks(data.webhooks);
+        setDeliveries(data.deliveries);
+      }
+    } catch (e) {
+      console.error('Failed to load webhooks:', e);
+    }
+  };
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [endpoint]);
+
+  const handleAdd = async () => {
+    if (!newUrl) return;
+    setBusy('add');
+    setError(null);
+    try {
+      const response = await fetch(`/api/routes/${endpoint}/webhooks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: newUrl })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to add webhook');
+      }
+      setSecret(data.secret);
+      setNewUrl('');
+      await loadWebhooks();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to add webhook');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTest = async (id: string) => {
+    setBusy(id);
+    setError(null);
+    try {
+      await fetch(`/api/routes/${endpoint}/webhooks/${id}/test`, { method: 'POST' });
+      await loadWebhooks();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Test delivery failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setBusy(id);
+    try {
+      await fetch(`/api/routes/${endpoint}/webhooks/${id}`, { method: 'DELETE' });
+      await loadWebhooks();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {webhooks.length === 0 ? (
+        <p className="text-xs text-white/40">No webhooks registered.</p>
+      ) : (
+        <ul className="space-y-2">
+          {webhooks.map(webhook => {
+            const last = deliveries.find(d => d.webhookId === webhook.id);
+            const lastAttempt = last?.attempts[last.attempts.length - 1];
+            return (
+              <li key={webhook.id} className="text-xs">
+                <div className="flex items-center justify-between space-x-2">
+                  <span className="text-white/80 truncate" title={webhook.url}>{webhook.url}</span>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <button
+                      onClick={() => handleTest(webhook.id)}
+                      disabled={busy !== null}
+                      className="px-2 py-1 bg-white/5 hover:bg-white/10 rounded text-white/60 disabled:opacity-50"
+                    >
+                      {busy === webhook.id ? 'Sending...' : 'Send test'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(webhook.id)}
+                      disabled={busy !== null}
+                      className="px-2 py-1 bg-white/5 hover:bg-red-500/20 rounded text-white/60 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                {last && (
+                  <div className={last.success ? 'text-emerald-400 mt-1' : 'text-red-400 mt-1'}>
+                    {last.event} {last.success ? 'delivered' : 'failed'} after {last.attempts.length} attempt(s)
+                    {lastAttempt?.status ? ` · HTTP ${lastAttempt.status}` : lastAttempt?.error ? ` · ${lastAttempt.error}` : ''}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          placeholder="https://example.com/webhook"
+          className="flex-1 min-w-0 bg-white/5 text-white text-xs rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newUrl || busy !== null}
+          className="px-2 py-1.5 bg-emerald-500 hover:bg-emerald-600 rounded text-xs font-medium text-white disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {secret && (
+        <p className="text-xs text-amber-400 break-all">
+          Signing secret (shown once): <code>{secret}</code>
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+// In-memory stand-in for the parts of @upstash/redis the utils use. Like the REST client,
+// JSON strings are handed back parsed.
+export function createFakeRedis() {
+  const values = new Map<string, unknown>();
+  const lists = new Map<string, unknown[]>();
+  const hashes = new Map<string, Record<string, unknown>>();
+  const sets = new Map<string, Set<string>>();
+
+  const decode = (value: unknown) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+  const list = (key: string) => {
+    if (!lists.has(key)) lists.set(key, []);
+    return lists.get(key)!;
+  };
+  const slice = (items: unknown[], start: number, stop: number) => items.slice(start, stop === -1 ? undefined : stop + 1);
+
+  // Queues commands and runs them in order on exec(), standing in for pipeline() and multi()
+  const batch = () => {
+    const queued: (() => Promise<unknown>)[] = [];
+    const chain: Record<string, (...args: unknown[]) => unknown> = new Proxy({}, {
+      get: (_, name: string) => name === 'exec'
+        ? async () => {
+            const results: unknown[] = [];
+            for (const run of queued) results.push(await run());
+            return results;
+          }
+        : (...args: unknown[]) => {
+            queued.push(() => (client as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[name](...args));
+            return chain;
+          }
+    });
+    return chain;
+  };
+
+  const client = {
+    async get(key: string) {
+      return values.has(key) ? decode(values.get(key)) : null;
+    },
+    async set(key: string, value: unknown, options?: { nx?: boolean }) {
+      if (options?.nx && values.has(key)) return null;
+      values.set(key, value);
+      return 'OK';
+    },
+    async del(...keys: string[]) {
+      let removed = 0;
+      for (const key of keys) {
+        if (values.delete(key) || lists.delete(key) || hashes.delete(key) || sets.delete(key)) removed++;
+      }
+      return removed;
+    },
+    async exists(...keys: string[]) {
+      return keys.filter(key => values.has(key) || lists.has(key) || hashes.has(key) || sets.has(key)).length;
+    },
+    async incr(key: string) {
+      const next = Number(values.get(key) ?? 0) + 1;
+      values.set(key, next);
+      return next;
+    },
+    async decr(key: string) {
+      const next = Number(values.get(key) ?? 0) - 1;
+      values.set(key, next);
+      return next;
+    },
+    async expire() {
+      return 1;
+    },
+    async keys(pattern: string) {
+      const expression = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+      return [...values.keys(), ...lists.keys(), ...hashes.keys(), ...sets.keys()].filter(key => expression.test(key));
+    },
+    async lpush(key: string, ...items: unknown[]) {
+      list(key).unshift(...items.reverse());
+      return list(key).length;
+    },
+    async rpush(key: string, ...items: unknown[]) {
+      list(key).push(...items);
+      return list(key).length;
+    },
+    async ltrim(key: string, start: number, stop: number) {
+      lists.set(key, slice(list(key), start, stop));
+      return 'OK';
+    },
+    async lrange(key: string, start: number, stop: number) {
+      return slice(lists.get(key) || [], start, stop).map(decode);
+    },
+    async hset(key: string, fields: Record<string, unknown>) {
+      hashes.set(key, { ...hashes.get(key), ...fields });
+      return Object.keys(fields).length;
+    },
+    async hget(key: string, field: string) {
+      const hash = hashes.get(key);
+      return hash && field in hash ? decode(hash[field]) : null;
+    },
+    async sadd(key: string, ...members: string[]) {
+      const set = sets.get(key) ?? new Set<string>();
+      const before = set.size;
+      members.forEach(member => set.add(member));
+      sets.set(key, set);
+      return set.size - before;
+    },
+    async smembers(key: string) {
+      return [...(sets.get(key) ?? [])];
+    },
+    async hincrby(key: string, field: string, increment: number) {
+      const hash = hashes.get(key) ?? {};
+      hash[field] = Number(hash[field] ?? 0) + increment;
+      hashes.set(key, hash);
+      return hash[field];
+    },
+    // Runs straight-line scripts: local assignments, redis.call(...), `..` concatenation and return
+    async eval(script: string, keys: string[], args: unknown[]) {
+      const locals: Record<string, unknown> = {};
+      const argument = (value: unknown) => typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value;
+      const evaluate = async (expression: string): Promise<unknown> => {
+        const call = expression.match(/^redis\.call\((.*)\)$/);
+        if (call) {
+          const [name, ...rest] = await Promise.all(call[1].split(',').map(part => evaluate(part.trim())));
+          const command = (client as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>)[String(name).toLowerCase()];
+          return command(...rest.map(argument));
+        }
+        if (expression.includes('..')) {
+          return (await Promise.all(expression.split('..').map(part => evaluate(part.trim())))).join('');
+        }
+        const indexed = expression.match(/^(KEYS|ARGV)\[(\d+)\]$/);
+        if (indexed) return (indexed[1] === 'KEYS' ? keys : args)[Number(indexed[2]) - 1];
+        const quoted = expression.match(/^'(.*)'$/);
+        if (quoted) return quoted[1];
+        if (/^-?\d+$/.test(expression)) return Number(expression);
+        if (expression in locals) return locals[expression];
+        throw new Error(`Unsupported script expression: ${expression}`);
+      };
+      for (const line of script.split('\n').map(line => line.trim()).filter(Boolean)) {
+        const assignment = line.match(/^local (\w+) = (.*)$/);
+        if (assignment) locals[assignment[1]] = await evaluate(assignment[2]);
+        else if (line.startsWith('return ')) return evaluate(line.slice('return '.length));
+        else await evaluate(line);
+      }
+      return null;
+    },
+    pipeline: batch,
+    multi: batch,
+    async hgetall(key: string) {
+      const hash = hashes.get(key);
+      return hash ? Object.fromEntries(Object.entries(hash).map(([field, value]) => [field, decode(value)])) : null;
+    },
+    reset() {
+      values.clear();
+      lists.clear();
+      hashes.clear();
+      sets.clear();
+    }
+  };
+  return client;
+}
+
+export type FakeRedis = ReturnType<typeof createFakeRedis>;
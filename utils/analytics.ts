@@ -0,0 +1,160 @@
+import { redis } from '@/utils/redis';
+
+export interface UsageHit {
+  keyId: string | null;
+  status: number;
+  latencyMs: number;
+  bytes: number;
+  format: string;
+}
+
+export interface UsageBucket {
+  bucket: string;
+  requests: number;
+  errors: number;
+  bytes: number;
+  p50: number | null;
+  p95: number | null;
+}
+
+export interface UsageBreakdown {
+  status: Record<string, number>;
+  format: Record<string, number>;
+  key: Record<string, number>;
+}
+
+type Granularity = 'hour' | 'day';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Buckets outlive the largest range the usage API serves
+const RETENTION_SECONDS: Record<Granularity, number> = {
+  hour: 60 * 60 * 24 * 8,
+  day: 60 * 60 * 24 * 100
+};
+
+// Latency percentiles are computed from the most recent samples in each bucket
+const LATENCY_SAMPLES: Record<Granularity, number> = {
+  hour: 500,
+  day: 2000
+};
+
+export const MAX_HOURS = 168;
+export const MAX_DAYS = 90;
+
+const bucketId = (granularity: Granularity, date: Date) =>
+  granularity === 'hour' ? date.toISOString().slice(0, 13) : date.toISOString().slice(0, 10);
+
+const countersKey = (endpoint: string, granularity: Granularity, bucket: string) =>
+  `api/usage/${endpoint}/${granularity}/${bucket}`;
+
+const latencyKey = (endpoint: string, granularity: Granularity, bucket: string) =>
+  `api/usage/${endpoint}/${granularity}/${bucket}/latency`;
+
+export async function recordHit(endpoint: string, hit: UsageHit) {
+  const now = new Date();
+  const pipeline = redis.pipeline();
+
+  for (const granularity of ['hour', 'day'] as const) {
+    const bucket = bucketId(granularity, now);
+    const counters = countersKey(endpoint, granularity, bucket);
+    const latency = latencyKey(endpoint, granularity, bucket);
+
+    pipeline.hincrby(counters, 'requests', 1);
+    pipeline.hincrby(counters, 'bytes', hit.bytes);
+    if (hit.status >= 400) {
+      pipeline.hincrby(counters, 'errors', 1);
+    }
+    pipeline.hincrby(counters, `status:${hit.status}`, 1);
+    pipeline.hincrby(counters, `format:${hit.format}`, 1);
+    if (hit.keyId) {
+      pipeline.hincrby(counters, `key:${hit.keyId}`, 1);
+    }
+    pipeline.expire(counters, RETENTION_SECONDS[granularity]);
+
+    pipeline.lpush(latency, Math.round(hit.latencyMs));
+    pipeline.ltrim(latency, 0, LATENCY_SAMPLES[granularity] - 1);
+    pipeline.expire(latency, RETENTION_SECONDS[granularity]);
+  }
+
+  await pipeline.exec();
+}
+
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) {
+    return null;
+  }
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+// Bucket ids for the last `count` hours/days, oldest first
+function recentBuckets(granularity: Granularity, count: number, now = Date.now()) {
+  const step = granularity === 'hour' ? HOUR_MS : DAY_MS;
+  return Array.from({ length: count }, (_, i) => bucketId(granularity, new Date(now - (count - 1 - i) * step)));
+}
+
+async function readBuckets(endpoint: string, granularity: Granularity, count: number) {
+  const buckets = recentBuckets(granularity, count);
+  const pipeline = redis.pipeline();
+  for (const bucket of buckets) {
+    pipeline.hgetall(countersKey(endpoint, granularity, bucket));
+    pipeline.lrange(latencyKey(endpoint, granularity, bucket), 0, -1);
+  }
+  const results = await pipeline.exec<unknown[]>();
+
+  return buckets.map((bucket, i) => ({
+    bucket,
+    counters: (results[i * 2] || {}) as Record<string, number | string>,
+    latencies: ((results[i * 2 + 1] || []) as (number | string)[]).map(Number).sort((a, b) => a - b)
+  }));
+}
+
+export async function getUsageAnalytics(endpoint: string, hours = 24, days = 30) {
+  const hourly = await readBuckets(endpoint, 'hour', hours);
+  const daily = await readBuckets(endpoint, 'day', days);
+
+  const toBucket = ({ bucket, counters, latencies }: typeof hourly[number]): UsageBucket => ({
+    bucket,
+    requests: Number(counters.requests || 0),
+    errors: Number(counters.errors || 0),
+    bytes: Number(counters.bytes || 0),
+    p50: percentile(latencies, 50),
+    p95: percentile(latencies, 95)
+  });
+
+  // Breakdowns and totals cover the daily range
+  const breakdown: UsageBreakdown = { status: {}, format: {}, key: {} };
+  for (const { counters } of daily) {
+    for (const [field, value] of Object.entries(counters)) {
+      const [group, name] = field.split(':');
+      if (name && (group === 'status' || group === 'format' || group === 'key')) {
+        breakdown[group][name] = (breakdown[group][name] || 0) + Number(value);
+      }
+    }
+  }
+
+  const dailyBuckets = daily.map(toBucket);
+  const allLatencies = daily.flatMap(d => d.latencies).sort((a, b) => a - b);
+
+  return {
+    hourly: hourly.map(toBucket),
+    daily: dailyBuckets,
+    totals: {
+      requests: dailyBuckets.reduce((sum, b) => sum + b.requests, 0),
+      errors: dailyBuckets.reduce((sum, b) => sum + b.errors, 0),
+      bytes: dailyBuckets.reduce((sum, b) => sum + b.bytes, 0),
+      p50: percentile(allLatencies, 50),
+      p95: percentile(allLatencies, 95)
+    },
+    breakdown
+  };
+}
+
+export async function deleteUsageAnalytics(endpoint: string) {
+  const keys = await redis.keys(`api/usage/${endpoint}/*`);
+  if (keys.length > 0) {
+    await redis.del(...keys);
+  }
+}
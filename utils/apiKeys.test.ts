@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import {
+  createApiKey,
+  createStreamToken,
+  revokeApiKey,
+  rotateApiKey,
+  STREAM_TOKEN_TTL_SECONDS,
+  verifyApiKey,
+  verifyStreamToken
+} from '@/utils/apiKeys';
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('verifyStreamToken', () => {
+  it('accepts a fresh token for its own endpoint only', async () => {
+    const { key } = await createApiKey(['prices', 'news']);
+    const { token } = createStreamToken(key, 'prices');
+
+    expect(await verifyStreamToken(token, 'prices')).toMatchObject({ ok: true, key: { id: key.id } });
+    expect(await verifyStreamToken(token, 'news')).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it('is not an API key', async () => {
+    const { key } = await createApiKey(['prices']);
+    const { token } = createStreamToken(key, 'prices');
+
+    expect(await verifyApiKey(token, 'prices')).toMatchObject({ ok: false, status: 401 });
+  });
+
+  it('rejects tampered and expired tokens', async () => {
+    const { key } = await createApiKey(['prices']);
+    const { token } = createStreamToken(key, 'prices');
+    const [, id, expires, signature] = token.split('_');
+
+    expect(await verifyStreamToken(`st_${id}_${Number(expires) + 3600}_${signature}`, 'prices')).toMatchObject({ ok: false, status: 401 });
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + (STREAM_TOKEN_TTL_SECONDS + 1) * 1000);
+    expect(await verifyStreamToken(token, 'prices')).toMatchObject({ ok: false, error: 'Stream token has expired' });
+  });
+
+  it('stops working when the key is rotated or revoked', async () => {
+    const { key } = await createApiKey(['prices']);
+    const first = createStreamToken(key, 'prices').token;
+    const rotated = await rotateApiKey(key.id);
+    expect(await verifyStreamToken(first, 'prices')).toMatchObject({ ok: false, status: 401 });
+
+    const second = createStreamToken(rotated!.key, 'prices').token;
+    await revokeApiKey(key.id);
+    expect(await verifyStreamToken(second, 'prices')).toMatchObject({ ok: false, status: 403 });
+  });
+});
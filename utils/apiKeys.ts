@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { redis } from '@/utils/redis';
+
+// Keys look like sk_<id>_<secret>; only the SHA-256 of the full token is stored
+const KEY_INDEX = 'api/keys-index';
+// Kept apart from the records so recording use never writes back a stale record over a rotation or revocation
+const LAST_USED_KEY = 'api/keys-last-used';
+const keyRecordKey = (id: string) => `api/keys/${id}`;
+
+export interface ApiKeyRecord {
+  id: string;
+  name?: string;
+  hash: string;
+  prefix: string;
+  endpoints: string[];
+  createdAt: string;
+  rotatedAt?: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
+export type PublicApiKey = Omit<ApiKeyRecord, 'hash'>;
+
+export type ApiKeyCheck =
+  | { ok: true; key: ApiKeyRecord }
+  | { ok: false; status: 401 | 403; error: string };
+
+export type AdminCheck =
+  | { ok: true }
+  | { ok: false; status: 401 | 503; error: string };
+
+const hashToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateToken = (id: string) =>
+  `sk_${id}_${crypto.randomBytes(24).toString('hex')}`;
+
+export const toPublicApiKey = ({ hash, ...key }: ApiKeyRecord): PublicApiKey => key;
+
+const getKeyRecord = (id: string) => redis.get<ApiKeyRecord>(keyRecordKey(id));
+
+export async function getApiKey(id: string) {
+  const key = await getKeyRecord(id);
+  if (!key) {
+    return null;
+  }
+  const lastUsedAt = await redis.hget<string>(LAST_USED_KEY, id);
+  return lastUsedAt ? { ...key, lastUsedAt } : key;
+}
+
+export async function createApiKey(endpoints: string[], name?: string) {
+  const id = crypto.randomBytes(6).toString('hex');
+  const token = generateToken(id);
+  const key: ApiKeyRecord = {
+    id,
+    name,
+    hash: hashToken(token),
+    prefix: token.slice(0, 18),
+    endpoints,
+    createdAt: new Date().toISOString()
+  };
+
+  await redis.set(keyRecordKey(id), key);
+  await redis.sadd(KEY_INDEX, id);
+
+  return { key, token };
+}
+
+export async function listApiKeys(endpoint?: string) {
+  const ids = await redis.smembers(KEY_INDEX);
+  const lastUsed = (await redis.hgetall<Record<string, string>>(LAST_USED_KEY)) || {};
+  const keys: ApiKeyRecord[] = [];
+
+  for (const id of ids) {
+    const key = await getKeyRecord(id);
+    if (key && (!endpoint || key.endpoints.includes(endpoint))) {
+      keys.push(lastUsed[id] ? { ...key, lastUsedAt: lastUsed[id] } : key);
+    }
+  }
+
+  return keys.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function rotateApiKey(id: string) {
+  const existing = await getKeyRecord(id);
+  if (!existing || existing.revokedAt) {
+    return null;
+  }
+
+  const token = generateToken(id);
+  const key: ApiKeyRecord = {
+    ...existing,
+    hash: hashToken(token),
+    prefix: token.slice(0, 18),
+    rotatedAt: new Date().toISOString()
+  };
+  await redis.set(keyRecordKey(id), key);
+
+  return { key, token };
+}
+
+export async function revokeApiKey(id: string) {
+  const existing = await getKeyRecord(id);
+  if (!existing) {
+    return null;
+  }
+
+  const key: ApiKeyRecord = {
+    ...existing,
+    revokedAt: existing.revokedAt || new Date().toISOString()
+  };
+  await redis.set(keyRecordKey(id), key);
+
+  return key;
+}
+
+// When an endpoint is deleted its keys must stop working: the endpoint is dropped from every
+// key's scope, and keys left without endpoints are revoked
+export async function removeEndpointFromKeys(endpoint: string) {
+  for (const existing of await listApiKeys(endpoint)) {
+    const endpoints = existing.endpoints.filter(scoped => scoped !== endpoint);
+    const { lastUsedAt, ...record } = existing;
+    await redis.set(keyRecordKey(existing.id), {
+      ...record,
+      endpoints,
+      ...(endpoints.length === 0 && { revokedAt: existing.revokedAt || new Date().toISOString() })
+    });
+  }
+}
+
+export function getBearerToken(req: Request) {
+  const header = req.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Revoked keys and keys scoped to other endpoints are refused, whichever credential presented them
+async function checkKeyAccess(key: ApiKeyRecord, endpoint: string): Promise<ApiKeyCheck> {
+  if (key.revokedAt) {
+    return { ok: false, status: 403, error: 'API key has been revoked' };
+  }
+
+  if (!key.endpoints.includes(endpoint)) {
+    return { ok: false, status: 403, error: 'API key is not authorized for this endpoint' };
+  }
+
+  const lastUsedAt = new Date().toISOString();
+  await redis.hset(LAST_USED_KEY, { [key.id]: lastUsedAt });
+
+  return { ok: true, key: { ...key, lastUsedAt } };
+}
+
+// Resolve the key presented on a request and check it is scoped to the endpoint
+export async function verifyApiKey(token: string | null, endpoint: string): Promise<ApiKeyCheck> {
+  if (!token) {
+    return { ok: false, status: 401, error: 'Missing API key' };
+  }
+
+  const match = token.match(/^sk_([a-f0-9]+)_[a-f0-9]+$/);
+  const key = match ? await getApiKey(match[1]) : null;
+  if (!key) {
+    return { ok: false, status: 401, error: 'Invalid API key' };
+  }
+
+  const expected = Buffer.from(key.hash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    return { ok: false, status: 401, error: 'Invalid API key' };
+  }
+
+  return checkKeyAccess(key, endpoint);
+}
+
+// Stream tokens look like st_<key id>_<expiry>_<signature>. They go in URLs, where EventSource
+// needs them and where they end up in logs, so they only open one endpoint's stream for a few
+// minutes. They are signed with the key's stored hash, so rotating or revoking it ends them too.
+export const STREAM_TOKEN_TTL_SECONDS = 15 * 60;
+
+const signStreamToken = (key: ApiKeyRecord, endpoint: string, expires: number) =>
+  crypto.createHmac('sha256', key.hash).update(`${key.id}:${endpoint}:${expires}`).digest('hex');
+
+export function createStreamToken(key: ApiKeyRecord, endpoint: string) {
+  const expires = Math.floor(Date.now() / 1000) + STREAM_TOKEN_TTL_SECONDS;
+  return {
+    token: `st_${key.id}_${expires}_${signStreamToken(key, endpoint, expires)}`,
+    expiresAt: new Date(expires * 1000).toISOString()
+  };
+}
+
+export async function verifyStreamToken(token: string | null, endpoint: string): Promise<ApiKeyCheck> {
+  if (!token) {
+    return { ok: false, status: 401, error: 'Missing stream token' };
+  }
+
+  const match = token.match(/^st_([a-f0-9]+)_(\d+)_([a-f0-9]{64})$/);
+  const key = match ? await getApiKey(match[1]) : null;
+  if (!match || !key) {
+    return { ok: false, status: 401, error: 'Invalid stream token' };
+  }
+
+  const expires = Number(match[2]);
+  const expected = Buffer.from(signStreamToken(key, endpoint, expires), 'hex');
+  if (!crypto.timingSafeEqual(expected, Buffer.from(match[3], 'hex'))) {
+    return { ok: false, status: 401, error: 'Invalid stream token' };
+  }
+  if (expires * 1000 < Date.now()) {
+    return { ok: false, status: 401, error: 'Stream token has expired' };
+  }
+
+  return checkKeyAccess(key, endpoint);
+}
+
+export function checkAdminToken(req: Request): AdminCheck {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return { ok: false, status: 503, error: 'ADMIN_API_KEY must be configured to use admin routes' };
+  }
+
+  const token = getBearerToken(req);
+  if (!token || !crypto.timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(hashToken(adminKey), 'hex'))) {
+    return { ok: false, status: 401, error: 'Admin token required' };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { dedupeItems, extractLinks, matchesPattern, matchesSelector } from '@/utils/crawl';
+import type { CrawlSettings } from '@/utils/endpointSettings';
+import { extractSource } from '@/utils/extraction';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import type { ExtractionProvider } from '@/utils/providers';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    products: {
+      type: 'array',
+      items: { type: 'object', properties: { name: { type: 'string' }, price: { type: 'string' } } }
+    }
+  }
+};
+
+// Reads list items straight from the HTML instead of asking a model
+const provider: ExtractionProvider = {
+  name: 'fixture',
+  async extract() {
+    throw new Error('Pages are always loaded first');
+  },
+  async extractPage(page) {
+    const products = [...page.html.matchAll(/<li><a [^>]*>([^<]+)<\/a> – ([^<]+)<\/li>/g)]
+      .map(([, name, price]) => ({ name, price }));
+    return { data: { title: page.html.match(/<title>([^<]*)<\/title>/)?.[1] ?? null, products } };
+  }
+};
+
+const crawl = (url: string, settings: Partial<CrawlSettings>) =>
+  extractSource(provider, url, { urls: [url], query: 'Products', schema, provider: 'fixture', crawl: { enabled: true, ...settings } });
+
+// A small site in a temporary fixtures directory: an index linking to every page
+const siteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'crawl-'));
+const sitePages: Record<string, string[]> = {
+  'index': ['fixture://site/products/a', 'fixture://site/products/b', 'fixture://site/about', 'fixture://site/products/c'],
+  'products/a': ['fixture://site/index'],
+  'products/b': [],
+  'products/c': [],
+  'about': []
+};
+for (const [name, links] of Object.entries(sitePages)) {
+  fs.mkdirSync(path.dirname(path.join(siteDir, 'site', `${name}.html`)), { recursive: true });
+  fs.writeFileSync(
+    path.join(siteDir, 'site', `${name}.html`),
+    `<html><head><title>${name}</title></head><body><ul><li><a href="#">${name}</a> – $1</li></ul>${links.map(link => `<a href="${link}">${link}</a>`).join('')}</body></html>`
+  );
+}
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+  delete process.env.FIXTURES_DIR;
+});
+
+afterAll(() => {
+  delete process.env.FIXTURES_DIR;
+  fs.rmSync(siteDir, { recursive: true, force: true });
+});
+
+describe('crawlSource', () => {
+  it('follows the next-page selector and drops items repeated across pages', async () => {
+    const result = await crawl('fixture://shop', { pagination: 'selector', nextPageSelector: '.pagination a.next' });
+
+    expect(result.pages?.map(page => page.url)).toEqual(['fixture://shop', 'fixture://shop/page-2']);
+    expect(result.data).toEqual({
+      title: 'Acme Shop – Widgets',
+      products: [
+        { name: 'Mini Widget', price: '$9.99' },
+        { name: 'Standard Widget', price: '$19.99' },
+        { name: 'Deluxe Widget', price: '$49.99' },
+        { name: 'Industrial Widget', price: '$129.00' }
+      ]
+    });
+  });
+
+  it('stops on the first page when no link matches the selector', async () => {
+    const result = await crawl('fixture://shop', { pagination: 'selector', nextPageSelector: 'a[rel=previous]' });
+    expect(result.pages).toHaveLength(1);
+  });
+
+  it('follows links that pass the include and exclude patterns', async () => {
+    process.env.FIXTURES_DIR = siteDir;
+    const result = await crawl('fixture://site/index', { maxDepth: 1, include: ['*/products/*'], exclude: ['*/products/b'] });
+
+    expect(result.pages?.map(page => page.url)).toEqual([
+      'fixture://site/index',
+      'fixture://site/products/a',
+      'fixture://site/products/c'
+    ]);
+  });
+
+  it('visits each page once, within maxPages', async () => {
+    process.env.FIXTURES_DIR = siteDir;
+    const all = await crawl('fixture://site/index', { maxDepth: 2 });
+    const limited = await crawl('fixture://site/index', { maxDepth: 2, maxPages: 2 });
+
+    expect(all.pages?.map(page => page.url)).toEqual([
+      'fixture://site/index',
+      'fixture://site/products/a',
+      'fixture://site/products/b',
+      'fixture://site/about',
+      'fixture://site/products/c'
+    ]);
+    expect(limited.pages?.map(page => page.url)).toEqual(['fixture://site/index', 'fixture://site/products/a']);
+  });
+});
+
+describe('dedupeItems', () => {
+  const items = [{ name: 'Widget', sku: 'A1' }, { name: 'widget ', sku: 'A2' }, { name: 'Gadget', sku: 'a1' }, { name: 'Other' }];
+  const itemSchema: JsonSchema = {
+    type: 'object',
+    properties: { items: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' }, sku: { type: 'string' } } } } }
+  };
+
+  it('uses the configured key, comparing trimmed strings case-insensitively', () => {
+    expect(dedupeItems('items', items, itemSchema, 'name')).toEqual([items[0], items[2], items[3]]);
+  });
+
+  it('falls back to the first well-known field, keeping items without it', () => {
+    expect(dedupeItems('items', items, itemSchema, null)).toEqual([items[0], items[1], items[3]]);
+    expect(dedupeItems('items', items, itemSchema, 'missing')).toEqual([items[0], items[1], items[3]]);
+  });
+});
+
+describe('matchesSelector', () => {
+  const [next] = extractLinks('<a class="next page" rel="next" id="more" href="/p/2">Next</a>', 'https://example.com/p/1');
+
+  it('matches tags, ids, classes and attributes on the link itself', () => {
+    expect(next.href).toBe('https://example.com/p/2');
+    expect(matchesSelector(next, 'a.next')).toBe(true);
+    expect(matchesSelector(next, '.pagination a#more')).toBe(true);
+    expect(matchesSelector(next, 'a[rel=next]')).toBe(true);
+    expect(matchesSelector(next, '[href*="/p/"]')).toBe(true);
+    expect(matchesSelector(next, '[href^=/p]')).toBe(true);
+    expect(matchesSelector(next, '[class~=page]')).toBe(true);
+    expect(matchesSelector(next, 'link, .prev')).toBe(false);
+    expect(matchesSelector(next, 'a:first-child')).toBe(false);
+  });
+});
+
+describe('matchesPattern', () => {
+  it('tests globs against the full URL and against the path', () => {
+    expect(matchesPattern('https://example.com/products/1', '*/products/*')).toBe(true);
+    expect(matchesPattern('https://example.com/products/1?page=2', '/products/*')).toBe(true);
+    expect(matchesPattern('https://example.com/blog/1', '/products/*')).toBe(false);
+    expect(matchesPattern('https://EXAMPLE.com/a', 'https://example.com/*')).toBe(true);
+  });
+});
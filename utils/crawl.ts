@@ -0,0 +1,293 @@
+import { crawlSettingsSchema, type CrawlSettings } from '@/utils/endpointSettings';
+import { decodeEntities } from '@/utils/htmlToMarkdown';
+import { resolveRef, type JsonSchema } from '@/utils/jsonSchema';
+import type { ExtractionRequest } from '@/utils/extraction';
+import type { ProviderResult } from '@/utils/providers';
+import { createModelClient, extractionModel, parseModelJson, type FetchedPage } from '@/utils/providers/llm';
+import { recordModelUsage } from '@/utils/spend';
+
+export interface PageLink {
+  tag: 'a' | 'link';
+  href: string;
+  text: string;
+  attributes: Record<string, string>;
+}
+
+// Per-page outcome of a crawl, kept with the source's result
+export interface CrawlPage {
+  url: string;
+  success: boolean;
+  error?: string;
+  // Disallowed by robots.txt; these don't count towards maxPages
+  blocked?: boolean;
+  // Reused from the extraction cache
+  cached?: boolean;
+  attempts: number;
+  // Set when the model could not be asked for the next page
+  paginationError?: string;
+}
+
+export type PageOutcome =
+  | { success: true; page: FetchedPage; result: ProviderResult; attempts: number; cached?: boolean }
+  | { success: false; error: string; attempts: number; blocked?: boolean };
+
+export interface CrawlResult {
+  data: Record<string, unknown> | null;
+  lastModified: string | null;
+  pages: CrawlPage[];
+}
+
+// Link candidates sent to the model when detecting pagination
+const MAX_PAGINATION_CANDIDATES = 150;
+// Fields tried, in order, when no dedupe key is configured
+const DEFAULT_DEDUPE_FIELDS = ['id', 'url', 'link', 'sku', 'isbn', 'name', 'title'];
+
+export const resolveCrawlSettings = (request: ExtractionRequest) => crawlSettingsSchema.parse(request.crawl || {});
+
+function parseAttributes(source: string) {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+const canonicalUrl = (url: string) => {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.toString();
+};
+
+// <a href> and <link href> elements with absolute URLs, in document order
+export function extractLinks(html: string, baseUrl: string): PageLink[] {
+  const links: PageLink[] = [];
+  const pattern = /<a\b([^>]*)>([\s\S]*?)<\/a>|<link\b([^>]*?)\/?>/gi;
+
+  for (const match of html.matchAll(pattern)) {
+    const tag = match[1] !== undefined ? 'a' : 'link';
+    const attributes = parseAttributes(match[1] ?? match[3] ?? '');
+    const href = attributes.href?.trim();
+    if (!href || href.startsWith('#') || /^(javascript|mailto|tel|data):/i.test(href)) continue;
+
+    try {
+      links.push({
+        tag,
+        href: canonicalUrl(new URL(href, baseUrl).toString()),
+        text: decodeEntities((match[2] || '').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim(),
+        attributes
+      });
+    } catch {
+      // Unparseable href
+    }
+  }
+  return links;
+}
+
+// Matches simple selectors against the link element itself: tag, #id, .class and [attr],
+// [attr=value], [attr*=value], [attr^=value], [attr$=value], [attr~=value], comma-separated.
+// Ancestors in descendant selectors (".pagination a.next") are ignored.
+export function matchesSelector(link: PageLink, selector: string) {
+  return selector.split(',').some(alternative => {
+    const compound = alternative.trim().split(/\s*>\s*|\s+/).pop() || '';
+    const tokens = compound.match(/^[a-z*]+|#[\w-]+|\.[\w-]+|\[[^\]]+\]/gi);
+    if (!tokens || tokens.join('') !== compound) {
+      return false;
+    }
+
+    return tokens.every(token => {
+      if (token[0] === '#') return link.attributes.id === token.slice(1);
+      if (token[0] === '.') return (link.attributes.class || '').split(/\s+/).includes(token.slice(1));
+      if (token[0] === '[') {
+        const attribute = token.slice(1, -1).match(/^\s*([\w-]+)\s*(?:([*^$~]?=)\s*["']?([^"']*)["']?)?\s*$/);
+        if (!attribute) return false;
+        const [, name, operator, expected = ''] = attribute;
+        const actual = link.attributes[name.toLowerCase()];
+        if (actual === undefined) return false;
+        switch (operator) {
+          case undefined: return true;
+          case '=': return actual === expected;
+          case '*=': return actual.includes(expected);
+          case '^=': return actual.startsWith(expected);
+          case '$=': return actual.endsWith(expected);
+          case '~=': return actual.split(/\s+/).includes(expected);
+          default: return false;
+        }
+      }
+      return token === '*' || token.toLowerCase() === link.tag;
+    });
+  });
+}
+
+// Globs where * matches anything, tested against the full URL and against its path and query
+export function matchesPattern(url: string, pattern: string) {
+  const expression = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+  const parsed = new URL(url);
+  return expression.test(url) || expression.test(`${parsed.pathname}${parsed.search}`);
+}
+
+async function detectNextPageWithModel(page: FetchedPage, links: PageLink[], request: ExtractionRequest) {
+  const candidates = links.filter(link => link.tag === 'a').slice(0, MAX_PAGINATION_CANDIDATES);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const openai = createModelClient();
+  const completion = await openai.chat.completions.create({
+    model: extractionModel(),
+    messages: [
+      {
+        role: 'system',
+        content: `You find pagination links on web pages.
+          Follow these rules:
+          1. Pick the link that leads to the next page of the same list or catalogue as the current page
+          2. Ignore links to individual items, categories, sorting options and previous pages
+          3. Respond with JSON: {"next": <link index or null>}`
+      },
+      {
+        role: 'user',
+        content: `Task: ${request.query}\n\nCurrent page: ${page.url}\n\nLinks:\n${candidates
+          .map((link, index) => `${index}: ${link.text || '(no text)'} → ${link.href}${link.attributes.rel ? ` (rel=${link.attributes.rel})` : ''}`)
+          .join('\n')}`
+      }
+    ],
+    response_format: { type: 'json_object' },
+    temperature: 0
+  });
+  await recordModelUsage(completion, { model: extractionModel(), operation: 'pagination', endpoint: request.endpoint });
+
+  const content = completion.choices[0]?.message?.content;
+  const index = content ? parseModelJson(content).next : null;
+  return typeof index === 'number' && candidates[index] ? candidates[index].href : null;
+}
+
+async function findNextPage(page: FetchedPage, links: PageLink[], settings: CrawlSettings, request: ExtractionRequest) {
+  switch (settings.pagination) {
+    case 'selector':
+      return links.find(link => matchesSelector(link, settings.nextPageSelector || ''))?.href ?? null;
+    case 'llm':
+      return detectNextPageWithModel(page, links, request);
+    default:
+      return null;
+  }
+}
+
+const normalizeKey = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toLowerCase() : JSON.stringify(value);
+
+function dedupeField(schema: JsonSchema, root: JsonSchema, configured: string | null) {
+  const property = schema.$ref ? resolveRef(root, schema.$ref) : schema;
+  const items = property.items?.$ref ? resolveRef(root, property.items.$ref) : property.items;
+  const fields = Object.keys(items?.properties || {});
+
+  if (configured && (fields.length === 0 || fields.includes(configured))) {
+    return configured;
+  }
+  return DEFAULT_DEDUPE_FIELDS.find(field => fields.includes(field)) ?? null;
+}
+
+// Drop repeated items from a combined array field, by the dedupe key (or the whole item when
+// there is none). Also used when merging array fields across sources.
+export function dedupeItems(field: string, items: unknown[], schema: JsonSchema, dedupeKey: string | null) {
+  const key = dedupeField(schema.properties?.[field] || {}, schema, dedupeKey);
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const identity = key && item && typeof item === 'object'
+      ? (item as Record<string, unknown>)[key]
+      : item;
+    // Items without a key value can't be compared, so they are all kept
+    if (key && (identity === undefined || identity === null)) return true;
+    const normalized = normalizeKey(identity);
+    if (seen.has(normalized)) return false;
+    seen.add(normalized);
+    return true;
+  });
+}
+
+// Combine per-page results: arrays are concatenated in page order and de-duplicated by the
+// dedupe key (or the whole item when there is none), other fields keep the first value found
+export function aggregatePages(pages: Record<string, unknown>[], schema: JsonSchema, dedupeKey: string | null) {
+  const combined: Record<string, unknown> = {};
+
+  for (const data of pages) {
+    for (const [field, value] of Object.entries(data)) {
+      if (Array.isArray(value)) {
+        combined[field] = [...(Array.isArray(combined[field]) ? combined[field] as unknown[] : []), ...value];
+      } else if (combined[field] === undefined || combined[field] === null || combined[field] === '') {
+        combined[field] = value;
+      }
+    }
+  }
+
+  for (const [field, value] of Object.entries(combined)) {
+    if (Array.isArray(value)) {
+      combined[field] = dedupeItems(field, value, schema, dedupeKey);
+    }
+  }
+  return combined;
+}
+
+// Crawl from one source URL within the page budget. Pagination links are followed first and
+// don't add depth; other links are followed up to maxDepth when they pass the URL patterns.
+export async function crawlSource(
+  startUrl: string,
+  request: ExtractionRequest,
+  visit: (url: string) => Promise<PageOutcome>
+): Promise<CrawlResult> {
+  const settings = resolveCrawlSettings(request);
+  const host = new URL(startUrl).host;
+  const allowed = (url: string) => {
+    if (settings.exclude.some(pattern => matchesPattern(url, pattern))) return false;
+    return settings.include.length > 0
+      ? settings.include.some(pattern => matchesPattern(url, pattern))
+      : new URL(url).host === host;
+  };
+
+  const queue = [{ url: canonicalUrl(startUrl), depth: 0 }];
+  const seen = new Set(queue.map(entry => entry.url));
+  const pages: CrawlPage[] = [];
+  const results: ProviderResult[] = [];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < settings.maxPages) {
+    const { url, depth } = queue.shift()!;
+    const outcome = await visit(url);
+    if (!outcome.success) {
+      pages.push({ url, success: false, error: outcome.error, attempts: outcome.attempts, ...(outcome.blocked && { blocked: true }) });
+      visited += outcome.blocked ? 0 : 1;
+      continue;
+    }
+    visited++;
+
+    const entry: CrawlPage = { url, success: true, attempts: outcome.attempts, ...(outcome.cached !== undefined && { cached: outcome.cached }) };
+    pages.push(entry);
+    results.push(outcome.result);
+
+    const links = extractLinks(outcome.page.html, outcome.page.url);
+    let next: string | null = null;
+    try {
+      next = await findNextPage(outcome.page, links, settings, request);
+    } catch (error) {
+      entry.paginationError = error instanceof Error ? error.message : 'Pagination detection failed';
+    }
+
+    if (next && !seen.has(next) && !settings.exclude.some(pattern => matchesPattern(next!, pattern))) {
+      seen.add(next);
+      queue.unshift({ url: next, depth });
+    }
+    if (depth < settings.maxDepth) {
+      for (const link of links) {
+        if (link.tag === 'a' && !seen.has(link.href) && allowed(link.href)) {
+          seen.add(link.href);
+          queue.push({ url: link.href, depth: depth + 1 });
+        }
+      }
+    }
+  }
+
+  const modified = results.map(result => result.lastModified).filter((value): value is string => !!value).sort();
+  return {
+    data: results.length > 0 ? aggregatePages(results.map(result => result.data), request.schema, settings.dedupeKey) : null,
+    lastModified: modified.length > 0 ? modified[modified.length - 1] : null,
+    pages
+  };
+}
@@ -0,0 +1,133 @@
+// JSON-patch style diff between two snapshots: field-level for objects, keyed for arrays
+
+export interface DiffOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+  oldValue?: unknown;
+  // Identity used to match array items across snapshots, when one was found
+  key?: { field: string; value: unknown };
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  total: number;
+}
+
+const KEY_CANDIDATES = ['id', 'key', 'slug', 'sku', 'url', 'link', 'name', 'title', 'symbol'];
+
+const escapePointer = (segment: string | number) =>
+  String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPrimitive = (value: unknown) => value === null || typeof value !== 'object';
+
+const equal = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// First field that is present and unique in every item on both sides
+function findKeyField(before: unknown[], after: unknown[]) {
+  const items = [...before, ...after];
+  if (items.length === 0 || !items.every(isObject)) {
+    return null;
+  }
+  return KEY_CANDIDATES.find(field => {
+    const unique = (list: unknown[]) => {
+      const values = list.map(item => (item as Record<string, unknown>)[field]);
+      return values.every(v => isPrimitive(v) && v !== null && v !== undefined)
+        && new Set(values.map(v => JSON.stringify(v))).size === values.length;
+    };
+    return unique(before) && unique(after);
+  }) || null;
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string, ops: DiffOperation[]) {
+  // Primitive lists are compared as sets of values
+  if (before.every(isPrimitive) && after.every(isPrimitive)) {
+    const afterValues = after.map(v => JSON.stringify(v));
+    const beforeValues = before.map(v => JSON.stringify(v));
+    before.forEach((value, index) => {
+      if (!afterValues.includes(beforeValues[index])) {
+        ops.push({ op: 'remove', path: `${path}/${index}`, oldValue: value });
+      }
+    });
+    after.forEach((value, index) => {
+      if (!beforeValues.includes(afterValues[index])) {
+        ops.push({ op: 'add', path: `${path}/${index}`, value });
+      }
+    });
+    return;
+  }
+
+  const keyField = findKeyField(before, after);
+  if (!keyField) {
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      diffValues(before[index], after[index], `${path}/${index}`, ops, index < before.length, index < after.length);
+    }
+    return;
+  }
+
+  const keyOf = (item: unknown) => JSON.stringify((item as Record<string, unknown>)[keyField]);
+  const beforeByKey = new Map(before.map((item, index) => [keyOf(item), { item, index }]));
+  const afterKeys = new Set(after.map(keyOf));
+
+  before.forEach((item, index) => {
+    if (!afterKeys.has(keyOf(item))) {
+      const value = (item as Record<string, unknown>)[keyField];
+      ops.push({ op: 'remove', path: `${path}/${index}`, oldValue: item, key: { field: keyField, value } });
+    }
+  });
+
+  after.forEach((item, index) => {
+    const value = (item as Record<string, unknown>)[keyField];
+    const previous = beforeByKey.get(keyOf(item));
+    if (!previous) {
+      ops.push({ op: 'add', path: `${path}/${index}`, value: item, key: { field: keyField, value } });
+      return;
+    }
+    const nested: DiffOperation[] = [];
+    diffValues(previous.item, item, `${path}/${index}`, nested, true, true);
+    ops.push(...nested.map(op => ({ ...op, key: op.key || { field: keyField, value } })));
+  });
+}
+
+function diffValues(before: unknown, after: unknown, path: string, ops: DiffOperation[], hadBefore = true, hasAfter = true) {
+  if (!hadBefore && hasAfter) {
+    ops.push({ op: 'add', path, value: after });
+  } else if (hadBefore && !hasAfter) {
+    ops.push({ op: 'remove', path, oldValue: before });
+  } else if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      diffValues(before[key], after[key], `${path}/${escapePointer(key)}`, ops, true, key in after);
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        ops.push({ op: 'add', path: `${path}/${escapePointer(key)}`, value: after[key] });
+      }
+    }
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, ops);
+  } else if (!equal(before, after)) {
+    ops.push({ op: 'replace', path, value: after, oldValue: before });
+  }
+}
+
+export function diffData(before: unknown, after: unknown) {
+  const ops: DiffOperation[] = [];
+  diffValues(before, after, '', ops);
+  return ops;
+}
+
+export function summarizeDiff(ops: DiffOperation[]): DiffSummary {
+  const count = (op: DiffOperation['op']) => ops.filter(o => o.op === op).length;
+  return {
+    added: count('add'),
+    removed: count('remove'),
+    changed: count('replace'),
+    total: ops.length
+  };
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { getEndpointSettings, updateEndpointSettings } from '@/utils/endpointSettings';
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+});
+
+describe('updateEndpointSettings', () => {
+  it('merges nested rules instead of replacing them', async () => {
+    await updateEndpointSettings('prices', { rateLimit: { perKey: { limit: 10 } } });
+
+    expect((await getEndpointSettings('prices')).rateLimit).toEqual({
+      perKey: { limit: 10, windowSeconds: 60 },
+      perIp: { limit: 120, windowSeconds: 60 }
+    });
+  });
+
+  it('replaces arrays and clears sections set to null', async () => {
+    await updateEndpointSettings('prices', { crawl: { include: ['/a/*', '/b/*'] }, budget: { monthlyUsd: 5 } });
+    const settings = await updateEndpointSettings('prices', { crawl: { include: ['/c/*'] }, budget: null });
+
+    expect(settings.crawl.include).toEqual(['/c/*']);
+    expect(settings.budget).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+
+const settingsKey = (endpoint: string) => `api/settings/${endpoint}`;
+
+const rateLimitRuleSchema = z.object({
+  limit: z.number().int().positive(),
+  windowSeconds: z.number().int().positive()
+});
+
+export const extractionProviderSchema = z.enum(['firecrawl', 'llm', 'fixture']);
+export const mergeStrategySchema = z.enum(['first-non-null', 'majority', 'most-recent', 'llm']);
+
+// Per-source timeout and retries, and how many sources a run needs before it is published
+export const sourcePolicySchema = z.object({
+  timeoutMs: z.number().int().min(1000).max(300000).default(90000),
+  // Extra attempts for transient failures: timeouts, network errors, 408/429/5xx
+  retries: z.number().int().min(0).max(5).default(2),
+  // best-effort publishes whatever succeeded; fail-all rejects the run if any source fails
+  onFailure: z.enum(['best-effort', 'fail-all']).default('best-effort'),
+  minSuccessful: z.number().int().min(1).default(1)
+});
+
+// Follow pagination and links from each source URL, extracting every page visited
+export const crawlSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  // Link hops to follow from the source URL; pagination doesn't count towards depth
+  maxDepth: z.number().int().min(0).max(5).default(0),
+  // Pages fetched per source URL, including the source itself
+  maxPages: z.number().int().min(1).max(100).default(10),
+  // URL globs; with no include patterns, links are limited to the source URL's host
+  include: z.array(z.string()).default([]),
+  exclude: z.array(z.string()).default([]),
+  // How the next page is found: a CSS selector for its link, or asking the model
+  pagination: z.enum(['none', 'selector', 'llm']).default('none'),
+  nextPageSelector: z.string().nullable().default(null),
+  // Item field used to drop duplicates when array results are combined across pages
+  dedupeKey: z.string().nullable().default(null)
+});
+
+export const endpointSettingsSchema = z.object({
+  // Cron expression for scheduled rescrapes, also drives Cache-Control on results
+  schedule: z.string().nullable().default(null),
+  // Let CDNs and other shared caches store results (Cache-Control: public, s-maxage), keyed per API key
+  sharedCache: z.boolean().default(false),
+  // Extraction provider for rescrapes; null falls back to EXTRACTION_PROVIDER
+  provider: extractionProviderSchema.nullable().default(null),
+  // How values from several sources are combined into one result
+  merge: z.object({
+    strategy: mergeStrategySchema.default('first-non-null')
+  }).default({}),
+  sourcePolicy: sourcePolicySchema.default({}),
+  crawl: crawlSettingsSchema.default({}),
+  rateLimit: z.object({
+    perKey: rateLimitRuleSchema.default({ limit: 60, windowSeconds: 60 }),
+    perIp: rateLimitRuleSchema.default({ limit: 120, windowSeconds: 60 })
+  }).default({}),
+  quota: z.object({
+    monthlyRequests: z.number().int().positive()
+  }).nullable().default(null),
+  // Estimated model spend per calendar month (UTC); scheduled rescrapes pause once it is reached
+  budget: z.object({
+    monthlyUsd: z.number().positive()
+  }).nullable().default(null),
+  history: z.object({
+    retention: z.number().int().min(1).max(500).default(20)
+  }).default({})
+});
+
+export type EndpointSettings = z.infer<typeof endpointSettingsSchema>;
+export type RateLimitRule = z.infer<typeof rateLimitRuleSchema>;
+export type ExtractionProviderName = z.infer<typeof extractionProviderSchema>;
+export type MergeStrategy = z.infer<typeof mergeStrategySchema>;
+export type SourcePolicy = z.infer<typeof sourcePolicySchema>;
+export type CrawlSettings = z.infer<typeof crawlSettingsSchema>;
+
+export async function getEndpointSettings(endpoint: string): Promise<EndpointSettings> {
+  const stored = await redis.get<Partial<EndpointSettings>>(settingsKey(endpoint));
+  return endpointSettingsSchema.parse(stored || {});
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Objects are merged at every level, so { rateLimit: { perKey: { limit: 10 } } } keeps the rule's
+// window; arrays and null replace the current value
+function mergeSettings(current: Record<string, unknown>, changes: Record<string, unknown>) {
+  const merged: Record<string, unknown> = { ...current };
+  for (const [field, value] of Object.entries(changes)) {
+    const existing = merged[field];
+    merged[field] = isPlainObject(value) && isPlainObject(existing) ? mergeSettings(existing, value) : value;
+  }
+  return merged;
+}
+
+// Deep-merge the changes so callers can PATCH a single field
+export async function updateEndpointSettings(endpoint: string, changes: Record<string, unknown>) {
+  const current = await getEndpointSettings(endpoint);
+  const settings = endpointSettingsSchema.parse(mergeSettings(current, changes));
+  await redis.set(settingsKey(endpoint), settings);
+  return settings;
+}
+
+export async function deleteEndpointSettings(endpoint: string) {
+  await redis.del(settingsKey(endpoint));
+}
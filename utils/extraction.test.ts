@@ -0,0 +1,166 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { runExtraction, type ExtractionRequest } from '@/utils/extraction';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { getCurrentSnapshot } from '@/utils/snapshots';
+import { getMonthSpend } from '@/utils/spend';
+import { publishValidatedSnapshot } from '@/utils/validation';
+
+const fakeRedis = redis as unknown as FakeRedis;
+
+interface ChatRequest {
+  model: string;
+  messages: { role: string; content: string }[];
+}
+
+// An OpenAI-compatible stand-in that answers each chat completion with the next queued reply
+let requests: ChatRequest[] = [];
+let replies: unknown[] = [];
+let delayMs = 0;
+let aborted = 0;
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    requests.push(JSON.parse(body));
+    const reply = replies.shift();
+    res.on('close', () => {
+      if (!res.writableFinished) aborted++;
+    });
+    setTimeout(() => {
+      if (res.destroyed) return;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'chatcmpl-test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: JSON.stringify(reply) } }],
+        usage: { prompt_tokens: 1000, completion_tokens: 100, total_tokens: 1100 }
+      }));
+    }, delayMs);
+  });
+});
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    company: { type: 'string' },
+    plans: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          price: { type: ['number', 'null'], 'x-normalize': { type: 'currency', keepRaw: true } },
+          seats: { type: 'string' }
+        },
+        required: ['name']
+      }
+    }
+  },
+  required: ['company', 'plans']
+};
+
+const request: ExtractionRequest = {
+  urls: ['https://example.com/'],
+  query: 'Company name and pricing plans',
+  schema,
+  provider: 'fixture',
+  sourcePolicy: { retries: 0 },
+  endpoint: 'acme'
+};
+
+const plans = [
+  { name: 'Starter', price: '$9', seats: '5' },
+  { name: 'Team', price: '$29', seats: '25' },
+  { name: 'Enterprise', price: null, seats: 'Unlimited' }
+];
+
+// Extract, then publish the run the way deploys and rescrapes do
+async function extractAndPublish() {
+  const result = await runExtraction(request);
+  return publishValidatedSnapshot('acme', {
+    data: result.data,
+    metadata: { query: request.query, schema, sources: request.urls, lastUpdated: result.run.completedAt, extraction: result.run }
+  });
+}
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env.OPENAI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  delete process.env.OPENAI_BASE_URL;
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  fakeRedis.reset();
+  requests = [];
+  replies = [];
+  delayMs = 0;
+  aborted = 0;
+});
+
+describe('extraction pipeline', () => {
+  it('extracts a fixture page through the model and publishes the normalized data', async () => {
+    replies = [{ company: 'Acme Widgets', plans }];
+    const stored = await extractAndPublish();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].messages[1].content).toContain('Title: Acme Widgets – Pricing');
+    expect(requests[0].messages[1].content).toContain('Starter');
+
+    const current = await getCurrentSnapshot('acme');
+    expect(current).toEqual(stored);
+    expect(current?.data).toEqual({
+      company: 'Acme Widgets',
+      plans: [
+        { name: 'Starter', price: 9, seats: '5' },
+        { name: 'Team', price: 29, seats: '25' },
+        { name: 'Enterprise', price: null, seats: 'Unlimited' }
+      ]
+    });
+    expect(current?.metadata).toMatchObject({
+      version: 1,
+      validation: { status: 'valid', repairAttempted: false },
+      raw: { '/plans/0/price': '$9', '/plans/1/price': '$29' },
+      extraction: { provider: 'fixture' }
+    });
+    expect((await getMonthSpend('acme')).calls).toBe(1);
+  });
+
+  it('repairs data that fails validation before publishing it', async () => {
+    replies = [
+      { company: 'Acme Widgets', plans: [{ price: '$9' }] },
+      { company: 'Acme Widgets', plans: [{ name: 'Starter', price: 9 }] }
+    ];
+    await extractAndPublish();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].messages[1].content).toContain('Validation errors');
+    expect(await getCurrentSnapshot('acme')).toMatchObject({
+      data: { plans: [{ name: 'Starter', price: 9 }] },
+      metadata: { validation: { status: 'repaired' } }
+    });
+  });
+
+  it('cancels the model call when the source times out', async () => {
+    delayMs = 3000;
+    replies = [{ company: 'Acme Widgets', plans }];
+
+    await expect(runExtraction({ ...request, sourcePolicy: { timeoutMs: 1000, retries: 0 } }))
+      .rejects.toMatchObject({ sources: [expect.objectContaining({ success: false, error: 'Timed out after 1000ms' })] });
+    await vi.waitFor(() => expect(aborted).toBe(1));
+    expect(await getCurrentSnapshot('acme')).toBeNull();
+  });
+});
@@ -0,0 +1,371 @@
+import {
+  sourcePolicySchema,
+  type CrawlSettings,
+  type ExtractionProviderName,
+  type MergeStrategy,
+  type SourcePolicy
+} from '@/utils/endpointSettings';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { jsonSchemaToZod } from '@/utils/schemaToZod';
+import { checkNormalizeRules } from '@/utils/normalize';
+import { createProvider, pageLoaderFor, type ExtractionProvider, type ProviderResult } from '@/utils/providers';
+import type { FetchedPage } from '@/utils/providers/llm';
+import { cacheExtraction, extractionCacheKey, getCachedExtraction } from '@/utils/extractionCache';
+import { mergeSources, type FieldProvenance } from '@/utils/merge';
+import { crawlSource, resolveCrawlSettings, type CrawlPage } from '@/utils/crawl';
+import { openSourceAuth } from '@/utils/sourceAuth';
+import { RobotsBlockedError } from '@/utils/politeness';
+import { UnsafeUrlError } from '@/utils/urlSafety';
+
+export interface ExtractionRequest {
+  urls: string[];
+  query: string;
+  schema: JsonSchema;
+  // Defaults to EXTRACTION_PROVIDER, then Firecrawl
+  provider?: ExtractionProviderName | null;
+  merge?: MergeStrategy;
+  // Unset fields use the defaults from endpointSettings
+  sourcePolicy?: Partial<SourcePolicy>;
+  // Crawl from each URL instead of extracting only that page
+  crawl?: Partial<CrawlSettings>;
+  // Per-domain headers, cookies and basic auth, sealed with sealSourceAuth
+  sourceAuth?: string | null;
+  // Re-extract every page even when a cached result for unchanged content exists
+  force?: boolean;
+  // Endpoint the run's model spend is recorded against
+  endpoint?: string | null;
+}
+
+export interface SourceResult {
+  url: string;
+  success: boolean;
+  data?: Record<string, unknown>;
+  lastModified?: string | null;
+  error?: string;
+  // Not fetched because robots.txt disallows it
+  blocked?: boolean;
+  // Whether the result was reused from the extraction cache; for crawls, true when every page
+  // was. Unset when the provider's results can't be cached.
+  cached?: boolean;
+  // Including retries; for crawls, the total across pages
+  attempts: number;
+  durationMs: number;
+  // Pages visited when crawling from this URL
+  pages?: CrawlPage[];
+}
+
+// Per-run details kept alongside each snapshot's metadata
+export interface ExtractionRun {
+  provider: ExtractionProviderName;
+  merge: MergeStrategy;
+  // Why the configured merge strategy was not used, e.g. the model was unavailable
+  mergeFallback?: string;
+  // Published from some sources while others failed
+  partial: boolean;
+  // Pages whose extraction was reused from the cache or run again
+  cache?: { hits: number; misses: number; forced: boolean };
+  startedAt: string;
+  completedAt: string;
+  sources: Omit<SourceResult, 'data'>[];
+}
+
+export interface ExtractionResult {
+  data: Record<string, unknown>;
+  provenance: Record<string, FieldProvenance>;
+  sources: SourceResult[];
+  run: ExtractionRun;
+}
+
+export class ExtractionError extends Error {
+  status: number;
+  sources: SourceResult[];
+
+  constructor(message: string, status = 500, sources: SourceResult[] = []) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.status = status;
+    this.sources = sources;
+  }
+}
+
+export const errorMessage = (error: unknown) => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (error && typeof error === 'object') {
+    try {
+      return JSON.stringify(error);
+    } catch {
+      return 'Unknown error occurred';
+    }
+  }
+  return String(error);
+};
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 10000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const resolveSourcePolicy = (request: ExtractionRequest) => sourcePolicySchema.parse(request.sourcePolicy || {});
+
+class SourceTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = 'SourceTimeoutError';
+  }
+}
+
+const TRANSIENT_STATUS = /(?:HTTP|status(?: code)?:?)\s*(?:408|429|5\d\d)\b/i;
+const TRANSIENT_NETWORK = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network error/i;
+
+// Worth retrying: timeouts, dropped connections and 408/429/5xx responses. Everything else
+// (404s, bad schemas, missing keys) fails the same way on every attempt.
+export function isTransientError(error: unknown) {
+  if (error instanceof ExtractionError || error instanceof RobotsBlockedError || error instanceof UnsafeUrlError) {
+    return false;
+  }
+  if (error instanceof SourceTimeoutError || (error instanceof Error && ['AbortError', 'TimeoutError', 'APIConnectionError', 'APIConnectionTimeoutError'].includes(error.name))) {
+    return true;
+  }
+  // HTTP client errors (OpenAI, axios-based SDKs) carry the response status
+  const { status: code, statusCode } = (error || {}) as { status?: unknown; statusCode?: unknown };
+  const status = code ?? statusCode;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = errorMessage(error);
+  return TRANSIENT_STATUS.test(message) || TRANSIENT_NETWORK.test(message);
+}
+
+// A timed-out attempt's signal is aborted, cancelling its page fetches and model calls. Firecrawl's
+// SDK doesn't accept a signal, so its requests are abandoned rather than cancelled.
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, ms: number) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new SourceTimeoutError(ms);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  return Promise.race([run(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+// Fail fast on schemas that can't be extracted against, then set up the chosen provider
+export function createExtractionProvider(request: ExtractionRequest) {
+  try {
+    jsonSchemaToZod(request.schema);
+    checkNormalizeRules(request.schema);
+    const crawl = resolveCrawlSettings(request);
+    if (crawl.enabled && crawl.pagination === 'selector' && !crawl.nextPageSelector) {
+      throw new Error('crawl.nextPageSelector is required when pagination is "selector"');
+    }
+  } catch (error) {
+    throw new ExtractionError(errorMessage(error), 400);
+  }
+  if (request.sourceAuth) {
+    // Fail the run up front rather than every source when the key is missing or has changed
+    try {
+      openSourceAuth(request.sourceAuth);
+    } catch (error) {
+      throw new ExtractionError(errorMessage(error));
+    }
+  }
+  return createProvider(request.provider || undefined);
+}
+
+// Run one unit of work with the request's timeout, retrying transient failures with exponential backoff
+async function withRetries<T>(
+  request: ExtractionRequest,
+  onRetry: ((attempt: number, error: unknown) => Promise<void> | void) | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<{ success: true; value: T; attempts: number } | { success: false; error: string; attempts: number; blocked?: boolean }> {
+  const { timeoutMs, retries } = resolveSourcePolicy(request);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { success: true, value: await withTimeout(run, timeoutMs), attempts: attempt };
+    } catch (error) {
+      if (attempt > retries || !isTransientError(error)) {
+        return {
+          success: false,
+          error: errorMessage(error),
+          attempts: attempt,
+          ...(error instanceof RobotsBlockedError && { blocked: true })
+        };
+      }
+      await onRetry?.(attempt, error);
+      await sleep(Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS));
+    }
+  }
+}
+
+// Extract from a fetched page, reusing the earlier result when the page content, query, schema
+// and model are unchanged. Cache errors never fail the extraction.
+async function extractFetchedPage(
+  provider: ExtractionProvider,
+  page: FetchedPage,
+  request: ExtractionRequest,
+  signal?: AbortSignal
+): Promise<ProviderResult & { cached: boolean }> {
+  const key = extractionCacheKey(page, request, provider.name);
+  if (!request.force) {
+    const cached = await getCachedExtraction(key).catch(() => null);
+    if (cached) {
+      return { data: cached.data, lastModified: page.lastModified, cached: true };
+    }
+  }
+
+  const result = provider.extractPage
+    ? await provider.extractPage(page, request, signal)
+    : await provider.extract(page.url, request, signal);
+  await cacheExtraction(key, result).catch(error => console.error('Failed to cache extraction:', error));
+  return { ...result, cached: false };
+}
+
+// The page to key the cache on. Firecrawl fetches pages itself, so the page is also fetched here to
+// hash it; when that fails (Firecrawl can render pages a plain fetch can't), the source is extracted
+// without the cache. Refused and robots-blocked URLs still fail.
+async function loadCacheablePage(provider: ExtractionProvider, url: string, request: ExtractionRequest, signal?: AbortSignal) {
+  const loadPage = pageLoaderFor(provider.name);
+  if (provider.extractPage) {
+    return loadPage(url, request, signal);
+  }
+  try {
+    return await loadPage(url, request, signal);
+  } catch (error) {
+    if (error instanceof RobotsBlockedError || error instanceof UnsafeUrlError) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+// Extract one source, or crawl from it when crawling is enabled. Never throws; failures are
+// reported in the result.
+export async function extractSource(
+  provider: ExtractionProvider,
+  url: string,
+  request: ExtractionRequest,
+  onRetry?: (attempt: number, error: unknown) => Promise<void> | void
+): Promise<SourceResult> {
+  const started = Date.now();
+
+  if (resolveCrawlSettings(request).enabled) {
+    const loadPage = pageLoaderFor(provider.name);
+    // Each page gets its own timeout and retries
+    const crawl = await crawlSource(url, request, pageUrl => withRetries(request, onRetry, async signal => {
+      const page = await loadPage(pageUrl, request, signal);
+      const { cached, ...result } = await extractFetchedPage(provider, page, request, signal);
+      return { page, result, cached };
+    }).then(outcome => (outcome.success ? { ...outcome.value, success: true as const, attempts: outcome.attempts } : outcome)));
+
+    const attempts = crawl.pages.reduce((sum, page) => sum + page.attempts, 0);
+    const durationMs = Date.now() - started;
+    const cached = crawl.pages.filter(page => page.success).every(page => page.cached);
+    return crawl.data
+      ? { url, success: true, data: crawl.data, lastModified: crawl.lastModified, cached, attempts, durationMs, pages: crawl.pages }
+      : {
+          url,
+          success: false,
+          error: crawl.pages[0]?.error || 'No pages could be extracted',
+          ...(crawl.pages[0]?.blocked && { blocked: true }),
+          attempts,
+          durationMs,
+          pages: crawl.pages
+        };
+  }
+
+  const outcome = await withRetries(request, onRetry, async (signal): Promise<ProviderResult & { cached?: boolean }> => {
+    const page = await loadCacheablePage(provider, url, request, signal);
+    return page ? extractFetchedPage(provider, page, request, signal) : provider.extract(url, request, signal);
+  });
+  const durationMs = Date.now() - started;
+  return outcome.success
+    ? {
+        url,
+        success: true,
+        data: outcome.value.data,
+        lastModified: outcome.value.lastModified,
+        ...(outcome.value.cached !== undefined && { cached: outcome.value.cached }),
+        attempts: outcome.attempts,
+        durationMs
+      }
+    : { url, success: false, error: outcome.error, ...(outcome.blocked && { blocked: true }), attempts: outcome.attempts, durationMs };
+}
+
+// Apply the failure policy: fail-all needs every source, best-effort needs minSuccessful
+// (capped at the number of sources, so one-URL endpoints aren't impossible to satisfy)
+function checkSourcePolicy(request: ExtractionRequest, sources: SourceResult[]) {
+  const { onFailure, minSuccessful } = resolveSourcePolicy(request);
+  const succeeded = sources.filter(source => source.success).length;
+  const failed = sources.length - succeeded;
+
+  if (succeeded === 0) {
+    throw new ExtractionError('Extraction failed for every source', 502, sources);
+  }
+  if (onFailure === 'fail-all' && failed > 0) {
+    throw new ExtractionError(`${failed} of ${sources.length} sources failed and the fail-all policy requires every source`, 502, sources);
+  }
+  const required = Math.min(minSuccessful, sources.length);
+  if (succeeded < required) {
+    throw new ExtractionError(`Only ${succeeded} of ${sources.length} sources succeeded; at least ${required} are required`, 502, sources);
+  }
+}
+
+// Cache use across the run's successfully extracted pages
+function cacheStats(request: ExtractionRequest, sources: SourceResult[]) {
+  const pages = sources
+    .filter(source => source.success)
+    .flatMap(source => (source.pages ? source.pages.filter(page => page.success) : [source]))
+    .filter(page => page.cached !== undefined);
+  const hits = pages.filter(page => page.cached).length;
+  return { hits, misses: pages.length - hits, forced: !!request.force };
+}
+
+// Merge the per-source results of a run; fails when too few sources could be extracted
+export async function finishExtraction(
+  request: ExtractionRequest,
+  provider: ExtractionProviderName,
+  sources: SourceResult[],
+  startedAt: string
+): Promise<ExtractionResult> {
+  checkSourcePolicy(request, sources);
+
+  const merged = await mergeSources(
+    sources.filter(source => source.success).map(source => ({
+      url: source.url,
+      data: source.data || {},
+      lastModified: source.lastModified
+    })),
+    request.merge || 'first-non-null',
+    { schema: request.schema, query: request.query, endpoint: request.endpoint, dedupeKey: resolveCrawlSettings(request).dedupeKey }
+  );
+
+  return {
+    data: merged.data,
+    provenance: merged.provenance,
+    sources,
+    run: {
+      provider,
+      merge: merged.strategy,
+      ...(merged.fallbackReason && { mergeFallback: merged.fallbackReason }),
+      partial: sources.some(source => !source.success),
+      cache: cacheStats(request, sources),
+      startedAt,
+      completedAt: new Date().toISOString(),
+      sources: sources.map(({ data, ...source }) => source)
+    }
+  };
+}
+
+// Server-side extraction shared by /api/extract and background jobs. Sources are extracted
+// individually so one failing URL is reported instead of failing the whole run.
+export async function runExtraction(request: ExtractionRequest): Promise<ExtractionResult> {
+  const provider = createExtractionProvider(request);
+  const startedAt = new Date().toISOString();
+  const sources = await Promise.all(request.urls.map(url => extractSource(provider, url, request)));
+  return finishExtraction(request, provider.name, sources, startedAt);
+}
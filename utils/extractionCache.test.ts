@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { extractSource, type ExtractionRequest } from '@/utils/extraction';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import type { ExtractionProvider } from '@/utils/providers';
+
+// Pages are read from a temporary fixtures directory so each test can change them between runs
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extraction-cache-'));
+const writePage = (html: string) => fs.writeFileSync(path.join(fixturesDir, 'pricing.html'), html);
+
+// Counts model calls instead of making them
+let calls = 0;
+const provider: ExtractionProvider = {
+  name: 'fixture',
+  async extract() {
+    throw new Error('Pages are always loaded first');
+  },
+  async extractPage() {
+    calls++;
+    return { data: { price: calls } };
+  }
+};
+
+const schema: JsonSchema = { type: 'object', properties: { price: { type: 'number' } } };
+const request: ExtractionRequest = { urls: ['fixture://pricing'], query: 'The price', schema, provider: 'fixture' };
+const extract = (changes: Partial<ExtractionRequest> = {}) => extractSource(provider, 'fixture://pricing', { ...request, ...changes });
+
+beforeAll(() => {
+  process.env.FIXTURES_DIR = fixturesDir;
+});
+
+afterAll(() => {
+  delete process.env.FIXTURES_DIR;
+  fs.rmSync(fixturesDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+  calls = 0;
+  writePage('<html><head><title>Pricing</title></head><body><div class="plan"><p>Team: $29 / month</p></div></body></html>');
+});
+
+describe('extraction cache', () => {
+  it('reuses the extraction when only the markup changes', async () => {
+    expect(await extract()).toMatchObject({ success: true, cached: false, data: { price: 1 } });
+
+    writePage(`<html>
+      <head><title>Pricing</title><script>window.build = 'abc123';</script><style>.plan { color: red; }</style></head>
+      <body><div class="plan plan--featured" data-id="7">
+        <p>Team:   $29 / month</p>
+      </div></body>
+    </html>`);
+    expect(await extract()).toMatchObject({ success: true, cached: true, data: { price: 1 } });
+    expect(calls).toBe(1);
+  });
+
+  it('extracts again when the content changes', async () => {
+    await extract();
+    writePage('<html><head><title>Pricing</title></head><body><div class="plan"><p>Team: $39 / month</p></div></body></html>');
+
+    expect(await extract()).toMatchObject({ cached: false, data: { price: 2 } });
+  });
+
+  it('misses when the query or schema changes', async () => {
+    await extract();
+
+    expect(await extract({ query: 'The monthly price' })).toMatchObject({ cached: false });
+    expect(await extract({ schema: { ...schema, required: ['price'] } })).toMatchObject({ cached: false });
+    expect(calls).toBe(3);
+  });
+
+  it('hashes equivalent schemas the same', async () => {
+    await extract({ schema: { type: 'object', properties: { price: { type: 'number' } }, required: ['price'] } });
+
+    expect(await extract({ schema: { required: ['price'], properties: { price: { type: 'number' } }, type: 'object' } }))
+      .toMatchObject({ cached: true });
+  });
+
+  it('bypasses the cache when forced, and stores the new result', async () => {
+    await extract();
+
+    expect(await extract({ force: true })).toMatchObject({ cached: false, data: { price: 2 } });
+    expect(await extract()).toMatchObject({ cached: true, data: { price: 2 } });
+    expect(calls).toBe(2);
+  });
+});
@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { redis } from '@/utils/redis';
+import { htmlTitle, htmlToMarkdown } from '@/utils/htmlToMarkdown';
+import type { ExtractionProviderName } from '@/utils/endpointSettings';
+import type { ExtractionRequest } from '@/utils/extraction';
+import type { ProviderResult } from '@/utils/providers';
+import { extractionModel, type FetchedPage } from '@/utils/providers/llm';
+
+// Bump when extraction prompts or the HTML-to-markdown conversion change, so results produced by
+// the old prompts, or keyed on the old content hash, aren't reused
+const CACHE_VERSION = 1;
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+interface CachedExtraction {
+  data: Record<string, unknown>;
+  cachedAt: string;
+}
+
+const cacheKey = (hash: string) => `api/extraction-cache/${hash}`;
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+// JSON with object keys sorted, so equivalent schemas hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+const cacheTtl = () => {
+  const configured = Number(process.env.EXTRACTION_CACHE_TTL_SECONDS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TTL_SECONDS;
+};
+
+// The page as the model reads it, so markup-only changes (scripts, attributes, whitespace)
+// don't invalidate the cache
+export const contentHash = (page: FetchedPage) =>
+  sha256(`${htmlTitle(page.html) || ''}\n${htmlToMarkdown(page.html, page.url).replace(/\s+/g, ' ').trim()}`);
+
+// Everything that shapes the output: the page content, where it came from, the query, the
+// schema and the model that reads them
+export function extractionCacheKey(page: FetchedPage, request: ExtractionRequest, provider: ExtractionProviderName) {
+  return sha256(stableStringify({
+    version: CACHE_VERSION,
+    provider,
+    model: provider === 'firecrawl' ? null : extractionModel(),
+    url: page.url,
+    content: contentHash(page),
+    query: sha256(request.query),
+    schema: sha256(stableStringify(request.schema))
+  }));
+}
+
+export async function getCachedExtraction(key: string) {
+  if (cacheTtl() === 0) {
+    return null;
+  }
+  return redis.get<CachedExtraction>(cacheKey(key));
+}
+
+export async function cacheExtraction(key: string, result: ProviderResult) {
+  const ttl = cacheTtl();
+  if (ttl === 0) {
+    return;
+  }
+  const cached: CachedExtraction = { data: result.data, cachedAt: new Date().toISOString() };
+  await redis.set(cacheKey(key), cached, { ex: ttl });
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { FormatError, negotiateFormat } from '@/utils/formats';
+
+const negotiate = (accept: string | null, query = '') =>
+  negotiateFormat(new Request(`https://example.com/api/results/prices${query}`, accept ? { headers: { accept } } : {}), new URLSearchParams(query));
+
+describe('negotiateFormat', () => {
+  it('defaults to JSON', () => {
+    expect(negotiate(null)).toBe('json');
+    expect(negotiate('*/*')).toBe('json');
+  });
+
+  it('gives browsers JSON even though they accept XML', () => {
+    expect(negotiate('text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8')).toBe('json');
+  });
+
+  it('uses another format when it is the first preference', () => {
+    expect(negotiate('text/csv')).toBe('csv');
+    expect(negotiate('application/x-ndjson, application/json;q=0.5')).toBe('ndjson');
+    expect(negotiate('application/xml')).toBe('xml');
+  });
+
+  it('prefers ?format= over Accept', () => {
+    expect(negotiate('application/json', '?format=csv')).toBe('csv');
+  });
+
+  it('rejects unsupported types', () => {
+    expect(() => negotiate('text/*')).toThrow(FormatError);
+    expect(() => negotiate(null, '?format=yaml')).toThrow(FormatError);
+  });
+});
@@ -0,0 +1,201 @@
+// Content negotiation and serializers for results in formats other than JSON
+import { hasType, type JsonSchema } from '@/utils/jsonSchema';
+
+export type OutputFormat = 'json' | 'csv' | 'ndjson' | 'xml';
+
+export class FormatError extends Error {
+  status: number;
+
+  constructor(message: string, status = 406) {
+    super(message);
+    this.name = 'FormatError';
+    this.status = status;
+  }
+}
+
+export const CONTENT_TYPES: Record<OutputFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  xml: 'application/xml; charset=utf-8'
+};
+
+const MEDIA_TYPES: Record<string, OutputFormat> = {
+  'application/json': 'json',
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/*': 'json',
+  '*/*': 'json'
+};
+
+// ?format= wins over the Accept header; JSON is the default
+export function negotiateFormat(req: Request, params: URLSearchParams): OutputFormat {
+  const requested = params.get('format');
+  if (requested) {
+    const format = requested.toLowerCase();
+    if (!(format in CONTENT_TYPES)) {
+      throw new FormatError(`Unsupported format "${requested}". Use json, csv, ndjson or xml`, 400);
+    }
+    return format as OutputFormat;
+  }
+
+  const accept = req.headers.get('accept');
+  if (!accept) {
+    return 'json';
+  }
+
+  const ranges = accept.split(',')
+    .map((part, index) => {
+      const [type, ...options] = part.trim().toLowerCase().split(';');
+      const q = options.map(o => o.trim()).find(o => o.startsWith('q='));
+      return { type: type.trim(), q: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(range => range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  // Another format only wins when it's the client's first choice. Browsers list HTML first and
+  // XML below it, and should still get JSON.
+  const preferred = MEDIA_TYPES[ranges[0]?.type];
+  if (preferred) {
+    return preferred;
+  }
+  const supported = ranges.filter(range => range.type in MEDIA_TYPES);
+  if (supported.length === 0) {
+    throw new FormatError('None of the requested media types are supported');
+  }
+  return supported.some(range => MEDIA_TYPES[range.type] === 'json') ? 'json' : MEDIA_TYPES[supported[0].type];
+}
+
+// Prefer the payload itself, then its only array property (per schema, then per data)
+function toRows(data: unknown, schema: JsonSchema | undefined) {
+  if (Array.isArray(data)) {
+    return { rows: data, itemSchema: hasType(schema, 'array') ? schema?.items : schema };
+  }
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    const arrays = Object.keys(record).filter(key => Array.isArray(record[key]));
+    if (arrays.length === 1) {
+      return { rows: record[arrays[0]] as unknown[], itemSchema: schema?.properties?.[arrays[0]]?.items };
+    }
+  }
+  return null;
+}
+
+// Column order follows the schema; nested objects become dotted columns
+function schemaColumns(schema: JsonSchema | undefined, prefix = ''): string[] {
+  if (!schema?.properties) {
+    return [];
+  }
+  return Object.entries(schema.properties).flatMap(([key, node]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    return hasType(node, 'object') && node.properties ? schemaColumns(node, column) : [column];
+  });
+}
+
+function flatten(value: unknown, prefix = '', into: Record<string, unknown> = {}) {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, into);
+    }
+  } else if (prefix) {
+    into[prefix] = value;
+  }
+  return into;
+}
+
+function csvCell(value: unknown) {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(data: unknown, schema: JsonSchema | undefined) {
+  const { rows, itemSchema } = toRows(data, schema) || { rows: [data], itemSchema: schema };
+  const flattened = rows.map((row): Record<string, unknown> => (row && typeof row === 'object' ? flatten(row) : { value: row }));
+
+  const columns = schemaColumns(itemSchema);
+  for (const row of flattened) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  const lines = [
+    columns.map(csvCell).join(','),
+    ...flattened.map(row => columns.map(column => csvCell(row[column])).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function toNdjson(data: unknown, schema: JsonSchema | undefined) {
+  const collection = toRows(data, schema);
+  if (!collection) {
+    throw new FormatError('NDJSON output requires array data');
+  }
+  return collection.rows.map(row => JSON.stringify(row)).join('\n') + '\n';
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const elementName = (key: string) => {
+  const name = key.replace(/[^A-Za-z0-9_.-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+};
+
+function xmlNode(name: string, value: unknown, indent: string): string {
+  const tag = elementName(name);
+  if (value === undefined || value === null) {
+    return `${indent}<${tag}/>`;
+  }
+  if (Array.isArray(value)) {
+    const children = value.map(item => xmlNode('item', item, indent + '  '));
+    return `${indent}<${tag}>\n${children.join('\n')}\n${indent}</${tag}>`;
+  }
+  if (typeof value === 'object') {
+    const children = Object.entries(value).map(([key, child]) => xmlNode(key, child, indent + '  '));
+    return children.length > 0
+      ? `${indent}<${tag}>\n${children.join('\n')}\n${indent}</${tag}>`
+      : `${indent}<${tag}/>`;
+  }
+  return `${indent}<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+export function toXml(envelope: Record<string, unknown>) {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${xmlNode('response', envelope, '')}\n`;
+}
+
+export function serialize(format: Exclude<OutputFormat, 'json'>, envelope: Record<string, unknown>, schema: JsonSchema | undefined) {
+  switch (format) {
+    case 'csv':
+      return toCsv(envelope.data, schema);
+    case 'ndjson':
+      return toNdjson(envelope.data, schema);
+    case 'xml':
+      return toXml(envelope);
+  }
+}
+
+export function formatHeaders(format: OutputFormat, filename: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': CONTENT_TYPES[format],
+    'Vary': 'Accept'
+  };
+  if (format !== 'json') {
+    headers['Content-Disposition'] = `attachment; filename="${filename}.${format}"`;
+  }
+  return headers;
+}
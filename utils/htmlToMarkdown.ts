@@ -0,0 +1,95 @@
+// Lightweight HTML → markdown conversion for feeding pages to a model. It keeps the text,
+// headings, links, lists and table rows a model needs and drops everything else.
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢'
+};
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+const attribute = (tag: string, name: string) => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3] ?? '') : null;
+};
+
+const resolveUrl = (href: string, baseUrl?: string) => {
+  try {
+    return baseUrl ? new URL(href, baseUrl).toString() : href;
+  } catch {
+    return href;
+  }
+};
+
+export function htmlToMarkdown(html: string, baseUrl?: string) {
+  let text = html
+    // Content a model can't use
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|template|iframe|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(nav|footer)\b[\s\S]*?<\/\1>/gi, '');
+
+  // Block structure
+  text = text
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => `\n\n${'#'.repeat(Number(level))} ${inner}\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(ul|ol)>/gi, '\n')
+    .replace(/<tr\b[^>]*>/gi, '\n|')
+    .replace(/<\/t[dh]>/gi, ' |')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, '\n\n---\n\n')
+    .replace(/<\/?(p|div|section|article|main|header|aside|table|thead|tbody|blockquote|pre|figure|dl|dt|dd|form)\b[^>]*>/gi, '\n\n');
+
+  // Inline elements
+  text = text
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attrs: string, inner: string) => {
+      const href = attribute(`<a${attrs}>`, 'href');
+      const label = inner.replace(/<[^>]+>/g, '').trim();
+      if (!href || href.startsWith('#') || href.startsWith('javascript:') || !label) {
+        return inner;
+      }
+      return `[${label}](${resolveUrl(href, baseUrl)})`;
+    })
+    .replace(/<img\b[^>]*>/gi, tag => {
+      const alt = attribute(tag, 'alt');
+      return alt ? `![${alt}]` : '';
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, '_$2_')
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Page <title>, used as a hint in prompts
+export function htmlTitle(html: string) {
+  const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  return match ? decodeEntities(match[1]).replace(/\s+/g, ' ').trim() : null;
+}
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Strong validator covering the stored snapshot plus everything that shapes the representation
+export function computeEtag(stored: unknown, representation: Record<string, unknown>) {
+  const hash = crypto.createHash('sha256')
+    .update(JSON.stringify(stored))
+    .update(JSON.stringify(representation))
+    .digest('base64url');
+  return `"${hash.slice(0, 32)}"`;
+}
+
+// Query parameters sorted so equivalent URLs share a validator
+export function normalizedParams(params: URLSearchParams) {
+  return [...params.entries()].sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+}
+
+const step = (field: string) => {
+  const match = field.match(/^\*\/(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
+
+const isNumber = (field: string) => /^\d+$/.test(field);
+
+// Approximate refresh interval for the cron presets offered by the scheduler
+export function scheduleIntervalSeconds(schedule: string | null | undefined): number | null {
+  if (!schedule) {
+    return null;
+  }
+  const fields = schedule.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  if (month !== '*') {
+    return null;
+  }
+
+  if (step(minute) && hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return step(minute)! * MINUTE;
+  }
+  if (minute === '*' && hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return MINUTE;
+  }
+  if (!isNumber(minute)) {
+    return null;
+  }
+  if (hour === '*' && dayOfMonth === '*' && dayOfWeek === '*') {
+    return HOUR;
+  }
+  if (step(hour) && dayOfMonth === '*' && dayOfWeek === '*') {
+    return step(hour)! * HOUR;
+  }
+  if (!isNumber(hour)) {
+    return null;
+  }
+  if (dayOfMonth === '*' && dayOfWeek === '*') {
+    return DAY;
+  }
+  if (dayOfMonth === '*' && /^\d$/.test(dayOfWeek)) {
+    return 7 * DAY;
+  }
+  if (dayOfWeek === '*' && step(dayOfMonth)) {
+    return step(dayOfMonth)! * DAY;
+  }
+  if (dayOfWeek === '*' && /^\d+(,\d+)+$/.test(dayOfMonth)) {
+    return Math.round(30 / dayOfMonth.split(',').length) * DAY;
+  }
+  if (dayOfWeek === '*' && isNumber(dayOfMonth)) {
+    return 30 * DAY;
+  }
+  return null;
+}
+
+// Fresh until the next scheduled refresh is due, then serve stale while revalidating for one interval
+export function cacheControl(schedule: string | null | undefined, lastUpdated: string | undefined, shared = false, now = Date.now()) {
+  // Shared caches may store results per API key (responses vary on Authorization); by default
+  // only the client does, so every request still reaches rate limits, quotas and analytics
+  const scope = shared ? 'public' : 'private';
+  const interval = scheduleIntervalSeconds(schedule);
+  if (!interval) {
+    return `${scope}, no-cache`;
+  }
+
+  const updatedAt = lastUpdated ? Date.parse(lastUpdated) : NaN;
+  const maxAge = Math.min(interval, Number.isNaN(updatedAt)
+    ? 0
+    : Math.max(0, Math.floor((updatedAt + interval * 1000 - now) / 1000)));
+
+  return shared
+    ? `public, max-age=${maxAge}, s-maxage=${maxAge}, stale-while-revalidate=${interval}`
+    : `private, max-age=${maxAge}, stale-while-revalidate=${interval}`;
+}
+
+export function lastModified(lastUpdated: string | undefined) {
+  const time = lastUpdated ? Date.parse(lastUpdated) : NaN;
+  return Number.isNaN(time) ? null : new Date(time).toUTCString();
+}
+
+// If-None-Match takes precedence over If-Modified-Since (RFC 9110 §13.2.2)
+export function isNotModified(req: Request, etag: string, modified: string | null) {
+  const ifNoneMatch = req.headers.get('if-none-match');
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === '*') {
+      return true;
+    }
+    return ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, '')).includes(etag);
+  }
+
+  const ifModifiedSince = req.headers.get('if-modified-since');
+  if (ifModifiedSince && modified) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && Date.parse(modified) <= since;
+  }
+
+  return false;
+}
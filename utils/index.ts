@@ -1,3 +1,24 @@
 export function classNames(...classes: (string | boolean | undefined | null)[]) {
   return classes.filter(Boolean).join(' ');
 }
+
+export function pascalCase(value: string) {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('') || 'Endpoint';
+}
+
+// Hands out each name once; taken names get a numeric suffix (FooBar, FooBar2, ...)
+export function nameAllocator(reserved: string[] = []) {
+  const used = new Set(reserved);
+  return (base: string) => {
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  };
+}
@@ -0,0 +1,364 @@
+import crypto from 'crypto';
+import { redis } from '@/utils/redis';
+import { jobRunner, runInline, triggerWorkflow, type JobRunner, type StepRunner } from '@/utils/runner';
+import { getEndpointSettings, type ExtractionProviderName } from '@/utils/endpointSettings';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import {
+  createExtractionProvider,
+  errorMessage,
+  extractSource,
+  finishExtraction,
+  ExtractionError,
+  type ExtractionRequest,
+  type SourceResult
+} from '@/utils/extraction';
+import { getCurrentSnapshot } from '@/utils/snapshots';
+import { getSealedSourceAuth } from '@/utils/sourceAuth';
+import { budgetExceededMessage, getBudgetStatus } from '@/utils/spend';
+import { publishValidatedSnapshot, SnapshotValidationError, validateAndRepair } from '@/utils/validation';
+
+export type JobType = 'extract' | 'rescrape' | 'publish';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+// Scheduled rescrapes come from a cron caller and stop once the endpoint's monthly budget is spent
+export type JobTrigger = 'manual' | 'schedule';
+
+export type JobInput =
+  // Preview extraction for the builder; nothing is published
+  | { type: 'extract'; request: ExtractionRequest }
+  // Re-run an endpoint's stored configuration and publish the result
+  | { type: 'rescrape'; endpoint: string; force?: boolean; trigger?: JobTrigger }
+  // Extract with a new configuration and publish it to the endpoint
+  | { type: 'publish'; endpoint: string; urls: string[]; query: string; schema: JsonSchema; force?: boolean };
+
+export interface JobRecord {
+  id: string;
+  type: JobType;
+  endpoint: string | null;
+  status: JobStatus;
+  runner: JobRunner;
+  input: JobInput;
+  // Known once the job starts; rescrapes read them from the stored snapshot
+  urls: string[];
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  result?: unknown;
+  error?: string;
+}
+
+export interface SourceProgress {
+  url: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed';
+  error?: string;
+  // Disallowed by robots.txt
+  blocked?: boolean;
+  attempts?: number;
+  durationMs?: number;
+  // Pages visited when crawling
+  pages?: number;
+  cached?: boolean;
+}
+
+export interface JobLogEntry {
+  at: string;
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+const JOB_TTL_SECONDS = 60 * 60 * 24 * 7;
+const JOB_INDEX_SIZE = 200;
+
+const jobKey = (id: string) => `api/jobs/${id}`;
+const sourcesKey = (id: string) => `api/jobs/${id}/sources`;
+const logsKey = (id: string) => `api/jobs/${id}/logs`;
+const JOBS_INDEX_KEY = 'api/jobs-index';
+
+const parse = <T>(value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value) as T;
+
+async function getJobRecord(id: string) {
+  const stored = await redis.get(jobKey(id));
+  return stored ? parse<JobRecord>(stored) : null;
+}
+
+async function updateJob(id: string, changes: Partial<JobRecord>) {
+  const job = await getJobRecord(id);
+  if (!job) {
+    throw new Error(`Job ${id} not found`);
+  }
+  const updated = { ...job, ...changes };
+  await redis.set(jobKey(id), JSON.stringify(updated), { ex: JOB_TTL_SECONDS });
+  return updated;
+}
+
+export async function appendJobLog(id: string, message: string, level: JobLogEntry['level'] = 'info') {
+  const entry: JobLogEntry = { at: new Date().toISOString(), level, message };
+  await redis.rpush(logsKey(id), JSON.stringify(entry));
+  await redis.expire(logsKey(id), JOB_TTL_SECONDS);
+}
+
+async function setSourceProgress(id: string, progress: SourceProgress) {
+  await redis.hset(sourcesKey(id), { [progress.url]: JSON.stringify(progress) });
+  await redis.expire(sourcesKey(id), JOB_TTL_SECONDS);
+}
+
+export async function createJob(input: JobInput) {
+  const job: JobRecord = {
+    // Prefixed so the index never holds an all-digit id that Redis would hand back as a number
+    id: `job_${crypto.randomBytes(8).toString('hex')}`,
+    type: input.type,
+    endpoint: input.type === 'extract' ? null : input.endpoint,
+    status: 'queued',
+    runner: jobRunner(),
+    input,
+    urls: input.type === 'rescrape' ? [] : input.type === 'extract' ? input.request.urls : input.urls,
+    createdAt: new Date().toISOString()
+  };
+
+  await redis.set(jobKey(job.id), JSON.stringify(job), { ex: JOB_TTL_SECONDS });
+  await redis.lpush(JOBS_INDEX_KEY, job.id);
+  await redis.ltrim(JOBS_INDEX_KEY, 0, JOB_INDEX_SIZE - 1);
+  await appendJobLog(job.id, `Queued ${job.type} job`);
+  return job;
+}
+
+// Job state with per-URL progress and logs, as reported by /api/jobs/:id
+export async function getJob(id: string) {
+  const job = await getJobRecord(id);
+  if (!job) {
+    return null;
+  }
+
+  const stored = (await redis.hgetall<Record<string, unknown>>(sourcesKey(id))) || {};
+  const sources = job.urls.map(url =>
+    stored[url] ? parse<SourceProgress>(stored[url]) : { url, status: 'pending' as const }
+  );
+  const logs = (await redis.lrange(logsKey(id), 0, -1)).map(entry => parse<JobLogEntry>(entry));
+
+  const { input, ...rest } = job;
+  return {
+    ...rest,
+    progress: {
+      total: sources.length,
+      completed: sources.filter(source => source.status === 'succeeded' || source.status === 'failed').length,
+      failed: sources.filter(source => source.status === 'failed').length,
+      sources
+    },
+    logs
+  };
+}
+
+export async function listJobs(endpoint?: string, limit = 20) {
+  const ids = await redis.lrange<string>(JOBS_INDEX_KEY, 0, JOB_INDEX_SIZE - 1);
+  const jobs: Omit<JobRecord, 'input'>[] = [];
+
+  for (const id of ids) {
+    if (jobs.length >= limit) break;
+    const job = await getJobRecord(id);
+    if (job && (!endpoint || job.endpoint === endpoint)) {
+      const { input, ...rest } = job;
+      jobs.push(rest);
+    }
+  }
+  return jobs;
+}
+
+async function failJob(id: string, message: string, result?: unknown) {
+  await appendJobLog(id, message, 'error');
+  await updateJob(id, { status: 'failed', error: message, completedAt: new Date().toISOString(), ...(result !== undefined && { result }) });
+}
+
+interface StartedJob {
+  request: ExtractionRequest;
+  provider: ExtractionProviderName;
+  startedAt: string;
+}
+
+// Resolve the extraction request for a job, or null if the job can't start
+async function startJob(job: JobRecord): Promise<StartedJob | null> {
+  let request: ExtractionRequest;
+
+  if (job.input.type === 'extract') {
+    request = job.input.request;
+  } else {
+    const settings = await getEndpointSettings(job.input.endpoint);
+    const extraction = {
+      provider: settings.provider,
+      merge: settings.merge.strategy,
+      sourcePolicy: settings.sourcePolicy,
+      crawl: settings.crawl,
+      sourceAuth: await getSealedSourceAuth(job.input.endpoint),
+      force: job.input.force,
+      endpoint: job.input.endpoint
+    };
+
+    if (job.input.type === 'rescrape') {
+      if (job.input.trigger === 'schedule') {
+        const budget = await getBudgetStatus(job.input.endpoint, settings);
+        if (budget.exceeded) {
+          await failJob(job.id, budgetExceededMessage(budget), { budget });
+          return null;
+        }
+      }
+
+      const current = await getCurrentSnapshot(job.input.endpoint);
+      if (!current) {
+        await failJob(job.id, 'Route not found');
+        return null;
+      }
+      const { query, schema, sources } = current.metadata;
+      request = { urls: sources, query, schema, ...extraction };
+    } else {
+      const { urls, query, schema } = job.input;
+      // Stored credentials only go to the sources they were saved for, never to newly supplied URLs
+      const current = await getCurrentSnapshot(job.input.endpoint);
+      const ownSources = urls.every(url => current?.metadata.sources.includes(url));
+      if (extraction.sourceAuth && !ownSources) {
+        await appendJobLog(job.id, 'Not using stored source credentials: the sources differ from the endpoint\'s current ones', 'warn');
+      }
+      request = { urls, query, schema, ...extraction, sourceAuth: ownSources ? extraction.sourceAuth : null };
+    }
+  }
+
+  try {
+    const provider = createExtractionProvider(request);
+    const startedAt = new Date().toISOString();
+    await updateJob(job.id, { status: 'running', startedAt, urls: request.urls });
+    await appendJobLog(job.id, `Extracting ${request.urls.length} source(s) with ${provider.name}`);
+    return { request, provider: provider.name, startedAt };
+  } catch (error) {
+    await failJob(job.id, errorMessage(error));
+    return null;
+  }
+}
+
+async function runSource(id: string, request: ExtractionRequest, url: string) {
+  await setSourceProgress(id, { url, status: 'running' });
+  const result = await extractSource(createExtractionProvider(request), url, request, async (attempt, error) => {
+    await setSourceProgress(id, { url, status: 'running', attempts: attempt, error: errorMessage(error) });
+    await appendJobLog(id, `Retrying ${url} after attempt ${attempt}: ${errorMessage(error)}`, 'warn');
+  });
+
+  await setSourceProgress(id, {
+    url,
+    status: result.success ? 'succeeded' : 'failed',
+    error: result.error,
+    blocked: result.blocked,
+    attempts: result.attempts,
+    durationMs: result.durationMs,
+    pages: result.pages?.length,
+    cached: result.cached
+  });
+  const crawled = result.pages ? ` (${result.pages.filter(page => page.success).length}/${result.pages.length} pages)` : '';
+  await appendJobLog(
+    id,
+    result.success
+      ? `${result.cached ? 'Reused cached extraction for' : 'Extracted'} ${url}${crawled} in ${result.durationMs}ms`
+      : `${result.blocked ? 'Skipped' : 'Failed'} ${url}${crawled}: ${result.error}`,
+    result.success ? 'info' : 'warn'
+  );
+  return result;
+}
+
+async function finishJob(job: JobRecord, { request, provider, startedAt }: StartedJob, sources: SourceResult[]) {
+  try {
+    const result = await finishExtraction(request, provider, sources, startedAt);
+    if (result.run.cache && result.run.cache.hits > 0) {
+      await appendJobLog(job.id, `Reused cached extractions for ${result.run.cache.hits} unchanged page(s)`);
+    }
+    if (result.run.partial) {
+      const failed = sources.filter(source => !source.success).length;
+      await appendJobLog(job.id, `Continuing with ${sources.length - failed} of ${sources.length} sources`, 'warn');
+    }
+
+    if (job.input.type === 'extract') {
+      // A preview, like /api/extract: publishing makes the repair attempt
+      const validation = await validateAndRepair(result.data, request.schema, request.query, request.endpoint, { repair: false });
+      await appendJobLog(job.id, `Validation: ${validation.report.status}`, validation.report.status === 'rejected' ? 'warn' : 'info');
+      await updateJob(job.id, {
+        status: 'succeeded',
+        completedAt: new Date().toISOString(),
+        result: {
+          data: validation.data ?? result.data,
+          sources: result.sources,
+          provider: result.run.provider,
+          merge: result.run.merge,
+          cache: result.run.cache,
+          provenance: result.provenance,
+          raw: validation.raw,
+          validation: validation.report
+        }
+      });
+    } else {
+      const endpoint = job.input.endpoint;
+      const current = await getCurrentSnapshot(endpoint);
+      // Raw values belong to the previous run's data, so they are not carried over
+      const { raw, ...previous } = current && job.input.type === 'rescrape' ? current.metadata : { raw: undefined };
+      const snapshot = await publishValidatedSnapshot(endpoint, {
+        data: result.data,
+        metadata: {
+          ...previous,
+          query: request.query,
+          schema: request.schema,
+          sources: request.urls,
+          lastUpdated: new Date().toISOString(),
+          extraction: result.run,
+          provenance: result.provenance
+        }
+      });
+      await appendJobLog(job.id, `Published version ${snapshot.metadata.version}`);
+      await updateJob(job.id, {
+        status: 'succeeded',
+        completedAt: new Date().toISOString(),
+        result: {
+          version: snapshot.metadata.version,
+          url: `/api/results/${endpoint}`,
+          sources: result.run.sources,
+          cache: result.run.cache,
+          validation: snapshot.metadata.validation
+        }
+      });
+    }
+  } catch (error) {
+    if (error instanceof SnapshotValidationError) {
+      await failJob(job.id, `${error.message}; the previous snapshot was kept`, { validation: error.report });
+    } else if (error instanceof ExtractionError) {
+      await failJob(job.id, error.message, { sources: error.sources });
+    } else {
+      await failJob(job.id, errorMessage(error));
+    }
+  }
+}
+
+// Every step records its own outcome and never throws, so workflow retries are reserved
+// for infrastructure failures rather than extraction errors.
+export async function executeJob(id: string, step: StepRunner = runInline) {
+  const job = await step('load', () => getJobRecord(id));
+  if (!job || job.status !== 'queued') {
+    return;
+  }
+
+  const started = await step('start', () => startJob(job));
+  if (!started) {
+    return;
+  }
+
+  const sources = await Promise.all(
+    started.request.urls.map((url, index) => step(`source-${index}`, () => runSource(id, started.request, url)))
+  );
+
+  await step('finish', () => finishJob(job, started, sources));
+}
+
+// Kick off a job on the configured runner. The local runner keeps working after the response
+// is sent, which suits `next dev`/`next start`; serverless deployments should use the workflow.
+export async function dispatchJob(job: JobRecord) {
+  if (job.runner === 'workflow') {
+    await triggerWorkflow('/api/jobs/workflow', { jobId: job.id });
+    return;
+  }
+
+  executeJob(job.id).catch(async error => {
+    console.error('Job failed:', error);
+    await failJob(job.id, errorMessage(error)).catch(() => undefined);
+  });
+}
@@ -0,0 +1,66 @@
+export type NormalizeRuleType = 'currency' | 'magnitude' | 'percent' | 'date' | 'unit';
+
+// How an extracted display value such as "$699.42" or "1.73T" is turned into a usable value
+export interface NormalizeRule {
+  type: NormalizeRuleType;
+  // Keep the value as extracted in the snapshot's metadata.raw
+  keepRaw?: boolean;
+  // percent: "12.5%" becomes 12.5 ('number', the default) or 0.125 ('fraction')
+  as?: 'number' | 'fraction';
+  // unit: the unit values are converted to, e.g. "kg" or "km"
+  unit?: string;
+}
+
+// The subset of JSON Schema the schema generator produces and the results API understands
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  // Numbers in draft 6+, booleans modifying minimum/maximum in draft 4
+  exclusiveMinimum?: number | boolean;
+  exclusiveMaximum?: number | boolean;
+  minItems?: number;
+  maxItems?: number;
+  // OpenAPI-style nullability, used by some generated schemas instead of a "null" type
+  nullable?: boolean;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  // Applied after extraction and before validation, see utils/normalize.ts
+  'x-normalize'?: NormalizeRuleType | NormalizeRule;
+}
+
+export const hasType = (node: JsonSchema | undefined, type: string) =>
+  !!node && (Array.isArray(node.type) ? node.type.includes(type) : node.type === type);
+
+// Resolve a local reference such as "#/definitions/item" or "#/$defs/item" against the root schema
+export function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Unsupported $ref: ${ref} (only local references are supported)`);
+  }
+
+  let node: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    node = node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined;
+  }
+
+  if (!node || typeof node !== 'object') {
+    throw new Error(`Unresolvable $ref: ${ref}`);
+  }
+  return node as JsonSchema;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { mergeSources } from '@/utils/merge';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    store: { type: 'string' },
+    products: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' }, price: { type: 'number' } } } },
+    tags: { type: 'array', items: { type: 'string' } }
+  }
+};
+
+const inputs = [
+  { url: 'https://a.com', data: { store: 'Acme', products: [{ sku: 'A1', price: 1 }, { sku: 'B2', price: 2 }], tags: ['new'] } },
+  { url: 'https://b.com', data: { store: 'Acme', products: [{ sku: 'b2', price: 2 }, { sku: 'C3', price: 3 }], tags: ['new', 'sale'] } },
+  { url: 'https://c.com', data: { store: 'Other', products: [] } }
+];
+
+describe('mergeSources', () => {
+  it('concatenates and de-duplicates array fields', async () => {
+    for (const strategy of ['first-non-null', 'majority', 'most-recent'] as const) {
+      const merged = await mergeSources(inputs, strategy, { schema, query: 'products' });
+
+      expect(merged.data.products).toEqual([{ sku: 'A1', price: 1 }, { sku: 'B2', price: 2 }, { sku: 'C3', price: 3 }]);
+      expect(merged.data.tags).toEqual(['new', 'sale']);
+      expect(merged.provenance.products).toMatchObject({ source: 'https://a.com', agreeing: ['https://a.com', 'https://b.com'], confidence: 0.67 });
+    }
+  });
+
+  it('uses the configured dedupe key', async () => {
+    const merged = await mergeSources(inputs, 'first-non-null', { schema, query: 'products', dedupeKey: 'price' });
+    expect(merged.data.products).toEqual([{ sku: 'A1', price: 1 }, { sku: 'B2', price: 2 }, { sku: 'C3', price: 3 }]);
+  });
+
+  it('still picks one value for other fields', async () => {
+    expect((await mergeSources(inputs, 'majority', { schema, query: 'products' })).data.store).toBe('Acme');
+  });
+});
@@ -0,0 +1,238 @@
+import type { MergeStrategy } from '@/utils/endpointSettings';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { createModelClient, extractionModel, parseModelJson } from '@/utils/providers/llm';
+import { recordModelUsage } from '@/utils/spend';
+import { extractionSchema } from '@/utils/normalize';
+import { dedupeItems } from '@/utils/crawl';
+
+// Successful per-source output that can be merged
+export interface MergeInput {
+  url: string;
+  data: Record<string, unknown>;
+  // When the source page was last modified, if the provider could tell
+  lastModified?: string | null;
+}
+
+export interface FieldProvenance {
+  // Source the value was taken from, null when no source had a value
+  source: string | null;
+  // Every source that returned the same value
+  agreeing: string[];
+  // 0–1; the share of sources that support the value, or the model's own estimate for 'llm'
+  confidence: number;
+  strategy: MergeStrategy;
+}
+
+export interface MergeResult {
+  data: Record<string, unknown>;
+  provenance: Record<string, FieldProvenance>;
+  strategy: MergeStrategy;
+  // Set when the requested strategy failed and a fallback was used
+  fallbackReason?: string;
+}
+
+const isPresent = (value: unknown) =>
+  value !== null && value !== undefined && !(typeof value === 'string' && value.trim() === '');
+
+// Compare values loosely so "Acme Inc" and " acme inc" count as the same answer
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+const valueKey = (value: unknown) => JSON.stringify(normalize(value));
+
+interface Candidate {
+  key: string;
+  sources: MergeInput[];
+}
+
+// Group the sources' values for one field by (normalized) value, in source order
+function candidatesFor(field: string, inputs: MergeInput[]) {
+  const candidates: Candidate[] = [];
+  for (const input of inputs) {
+    const value = input.data[field];
+    if (!isPresent(value)) continue;
+    const key = valueKey(value);
+    const existing = candidates.find(candidate => candidate.key === key);
+    if (existing) {
+      existing.sources.push(input);
+    } else {
+      candidates.push({ key, sources: [input] });
+    }
+  }
+  return candidates;
+}
+
+const recency = (input: MergeInput) => (input.lastModified ? Date.parse(input.lastModified) || 0 : 0);
+
+function pick(candidates: Candidate[], strategy: Exclude<MergeStrategy, 'llm'>) {
+  switch (strategy) {
+    case 'majority':
+      // Ties go to the candidate seen first
+      return candidates.reduce((best, candidate) => (candidate.sources.length > best.sources.length ? candidate : best));
+    case 'most-recent': {
+      // Sources without a modification date rank last, keeping source order among them
+      const latest = (candidate: Candidate) => Math.max(...candidate.sources.map(recency));
+      return candidates.reduce((best, candidate) => (latest(candidate) > latest(best) ? candidate : best));
+    }
+    case 'first-non-null':
+    default:
+      return candidates[0];
+  }
+}
+
+const fieldsOf = (inputs: MergeInput[], schema: JsonSchema) => {
+  const fields = new Set(Object.keys(schema.properties || {}));
+  inputs.forEach(input => Object.keys(input.data).forEach(field => fields.add(field)));
+  return [...fields];
+};
+
+// Array fields are lists (products, listings) that each source only partly covers, so they are
+// combined like crawled pages instead of picking one source's list
+function mergeArrays(field: string, inputs: MergeInput[], schema: JsonSchema, dedupeKey: string | null, strategy: MergeStrategy) {
+  const contributing = inputs.filter(input => Array.isArray(input.data[field]) && (input.data[field] as unknown[]).length > 0);
+  const items = contributing.flatMap(input => input.data[field] as unknown[]);
+  const provenance: FieldProvenance = {
+    source: contributing[0]?.url ?? null,
+    agreeing: contributing.map(input => input.url),
+    confidence: Number((contributing.length / inputs.length).toFixed(2)),
+    strategy
+  };
+  return { value: dedupeItems(field, items, schema, dedupeKey), provenance };
+}
+
+function mergeByRule(
+  inputs: MergeInput[],
+  schema: JsonSchema,
+  strategy: Exclude<MergeStrategy, 'llm'>,
+  dedupeKey: string | null
+): MergeResult {
+  const data: Record<string, unknown> = {};
+  const provenance: Record<string, FieldProvenance> = {};
+
+  for (const field of fieldsOf(inputs, schema)) {
+    const candidates = candidatesFor(field, inputs);
+    if (candidates.length === 0) {
+      if (inputs.some(input => field in input.data)) {
+        data[field] = null;
+      }
+      provenance[field] = { source: null, agreeing: [], confidence: 0, strategy };
+      continue;
+    }
+
+    if (inputs.length > 1 && candidates.every(candidate => Array.isArray(candidate.sources[0].data[field]))) {
+      const merged = mergeArrays(field, inputs, schema, dedupeKey, strategy);
+      data[field] = merged.value;
+      provenance[field] = merged.provenance;
+      continue;
+    }
+
+    const chosen = pick(candidates, strategy);
+    const primary = strategy === 'most-recent'
+      ? chosen.sources.reduce((a, b) => (recency(b) > recency(a) ? b : a))
+      : chosen.sources[0];
+
+    data[field] = primary.data[field];
+    provenance[field] = {
+      source: primary.url,
+      agreeing: chosen.sources.map(source => source.url),
+      confidence: Number((chosen.sources.length / inputs.length).toFixed(2)),
+      strategy
+    };
+  }
+
+  return { data, provenance, strategy };
+}
+
+// Let the model reconcile conflicting values, reporting which source it trusted per field
+async function mergeWithLlm(inputs: MergeInput[], schema: JsonSchema, query: string, endpoint?: string | null): Promise<MergeResult> {
+  const openai = createModelClient();
+  const completion = await openai.chat.completions.create({
+    model: extractionModel(),
+    messages: [
+      {
+        role: 'system',
+        content: `You reconcile data about the same subject extracted from several web sources.
+          Follow these rules:
+          1. For each field pick the value best supported by the sources, preferring agreement, specificity and recency
+          2. Never invent values; use null when no source has one
+          3. Respond with JSON: {"data": {...}, "fields": {"<field>": {"source": <source index or null>, "confidence": <0-1>}}}
+
+          JSON Schema for "data":
+          ${JSON.stringify(extractionSchema(schema))}`
+      },
+      {
+        role: 'user',
+        content: `Task: ${query}\n\n${inputs
+          .map((input, index) => `Source ${index}: ${input.url}${input.lastModified ? ` (modified ${input.lastModified})` : ''}\n${JSON.stringify(input.data)}`)
+          .join('\n\n')}`
+      }
+    ],
+    response_format: { type: 'json_object' },
+    temperature: 0
+  });
+  await recordModelUsage(completion, { model: extractionModel(), operation: 'merge', endpoint });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('Model returned an empty response');
+  }
+  const parsed = parseModelJson(content);
+  const data = parsed.data;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Model response is missing "data"');
+  }
+  const fields = (parsed.fields || {}) as Record<string, { source?: unknown; confidence?: unknown }>;
+
+  const provenance: Record<string, FieldProvenance> = {};
+  for (const [field, value] of Object.entries(data as Record<string, unknown>)) {
+    const index = fields[field]?.source;
+    const source = typeof index === 'number' && inputs[index] ? inputs[index].url : null;
+    const confidence = Number(fields[field]?.confidence);
+    const agreeing = isPresent(value)
+      ? inputs.filter(input => valueKey(input.data[field]) === valueKey(value)).map(input => input.url)
+      : [];
+
+    provenance[field] = {
+      source: source ?? agreeing[0] ?? null,
+      agreeing,
+      confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, Number(confidence.toFixed(2)))) : 0,
+      strategy: 'llm'
+    };
+  }
+
+  return { data: data as Record<string, unknown>, provenance, strategy: 'llm' };
+}
+
+export async function mergeSources(
+  inputs: MergeInput[],
+  strategy: MergeStrategy,
+  context: { schema: JsonSchema; query: string; endpoint?: string | null; dedupeKey?: string | null }
+): Promise<MergeResult> {
+  const dedupeKey = context.dedupeKey ?? null;
+  // A single source needs no reconciliation, whatever the strategy
+  if (strategy !== 'llm' || inputs.length < 2) {
+    return mergeByRule(inputs, context.schema, strategy === 'llm' ? 'first-non-null' : strategy, dedupeKey);
+  }
+
+  try {
+    return await mergeWithLlm(inputs, context.schema, context.query, context.endpoint);
+  } catch (error) {
+    console.error('LLM merge failed, falling back to majority vote:', error);
+    return {
+      ...mergeByRule(inputs, context.schema, 'majority', dedupeKey),
+      fallbackReason: error instanceof Error ? error.message : 'LLM merge failed'
+    };
+  }
+}
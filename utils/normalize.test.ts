@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema, NormalizeRule } from '@/utils/jsonSchema';
+import { applyRule, normalizeData } from '@/utils/normalize';
+
+const rule = (type: NormalizeRule['type'], options: Omit<NormalizeRule, 'type'> = {}): NormalizeRule => ({ type, ...options });
+
+describe('applyRule', () => {
+  it('reads currency and magnitude strings', () => {
+    expect(applyRule('$699.42', rule('currency'))).toBe(699.42);
+    expect(applyRule('US$1,200', rule('currency'))).toBe(1200);
+    expect(applyRule('EUR 15', rule('currency'))).toBe(15);
+    expect(applyRule('$1.73T', rule('currency'))).toBe(1.73e12);
+    expect(applyRule('1.73T', rule('magnitude'))).toBe(1.73e12);
+    expect(applyRule('23.4M', rule('magnitude'))).toBe(23400000);
+    expect(applyRule('2.5 billion', rule('magnitude'))).toBe(2.5e9);
+  });
+
+  it('accepts locale thousands and decimal separators', () => {
+    expect(applyRule('1,234.56', rule('currency'))).toBe(1234.56);
+    expect(applyRule('1.234,56 €', rule('currency'))).toBe(1234.56);
+    expect(applyRule('1 234', rule('magnitude'))).toBe(1234);
+    expect(applyRule("1'234.5", rule('magnitude'))).toBe(1234.5);
+    expect(applyRule('1.234.567', rule('magnitude'))).toBe(1234567);
+    expect(applyRule('1,234', rule('magnitude'))).toBe(1234);
+    expect(applyRule('12,5', rule('magnitude'))).toBe(12.5);
+  });
+
+  it('reads negative and parenthesised amounts', () => {
+    expect(applyRule('-$5', rule('currency'))).toBe(-5);
+    expect(applyRule('−4.2M', rule('magnitude'))).toBe(-4200000);
+    expect(applyRule('($1,200.50)', rule('currency'))).toBe(-1200.5);
+    expect(applyRule('(3%)', rule('percent'))).toBe(-3);
+  });
+
+  it('converts percentages and units', () => {
+    expect(applyRule('12.5%', rule('percent'))).toBe(12.5);
+    expect(applyRule('12.5%', rule('percent', { as: 'fraction' }))).toBe(0.125);
+    expect(applyRule('2 lbs', rule('unit', { unit: 'kg' }))).toBe(0.90718474);
+    expect(applyRule('250', rule('unit', { unit: 'g' }))).toBe(250);
+    expect(applyRule('3 km', rule('unit', { unit: 'kg' }))).toBeUndefined();
+  });
+
+  it('passes numbers through and gives up on unparseable input', () => {
+    expect(applyRule(42, rule('currency'))).toBe(42);
+    expect(applyRule('Contact us', rule('currency'))).toBeUndefined();
+    expect(applyRule('12 apples', rule('magnitude'))).toBeUndefined();
+    expect(applyRule('soon', rule('date'))).toBeUndefined();
+  });
+});
+
+describe('normalizeData', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      marketCap: { type: 'number', 'x-normalize': { type: 'magnitude', keepRaw: true } },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { price: { type: 'number', 'x-normalize': 'currency' } }
+        }
+      }
+    }
+  };
+
+  it('rewrites values in place and lists the pointers it changed', () => {
+    const result = normalizeData({ marketCap: '1.73T', items: [{ price: '$699.42' }, { price: 5 }] }, schema);
+
+    expect(result.data).toEqual({ marketCap: 1.73e12, items: [{ price: 699.42 }, { price: 5 }] });
+    expect(result.normalized).toEqual(['/marketCap', '/items/0/price']);
+  });
+
+  it('keeps raw values only for rules with keepRaw', () => {
+    const result = normalizeData({ marketCap: '23.4M', items: [{ price: '$9' }] }, schema);
+    expect(result.raw).toEqual({ '/marketCap': '23.4M' });
+  });
+
+  it('leaves values it cannot read for validation to report', () => {
+    const data = { marketCap: 'n/a', items: [{ price: 'Contact us' }, { price: null }] };
+    const result = normalizeData(data, schema);
+
+    expect(result.data).toEqual(data);
+    expect(result.normalized).toEqual([]);
+    expect(result.raw).toEqual({});
+  });
+});
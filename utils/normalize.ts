@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { hasType, resolveRef, type JsonSchema, type NormalizeRule } from '@/utils/jsonSchema';
+
+export const normalizeRuleSchema = z.union([
+  z.enum(['currency', 'magnitude', 'percent', 'date', 'unit']),
+  z.object({
+    type: z.enum(['currency', 'magnitude', 'percent', 'date', 'unit']),
+    keepRaw: z.boolean().optional(),
+    as: z.enum(['number', 'fraction']).optional(),
+    unit: z.string().optional()
+  })
+]);
+
+export interface NormalizeResult {
+  data: unknown;
+  // Values as extracted, keyed by JSON pointer, for rules with keepRaw
+  raw: Record<string, unknown>;
+  // Pointers of the values that were changed
+  normalized: string[];
+}
+
+const MAGNITUDES: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mm: 1e6, mn: 1e6, mil: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+  t: 1e12, tn: 1e12, trillion: 1e12
+};
+
+// Factors to each dimension's base unit (metre, kilogram, litre, second, byte)
+const UNITS: Record<string, { dimension: string; factor: number }> = {
+  mm: { dimension: 'length', factor: 0.001 },
+  cm: { dimension: 'length', factor: 0.01 },
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1000 },
+  in: { dimension: 'length', factor: 0.0254 },
+  ft: { dimension: 'length', factor: 0.3048 },
+  yd: { dimension: 'length', factor: 0.9144 },
+  mi: { dimension: 'length', factor: 1609.344 },
+  mg: { dimension: 'mass', factor: 1e-6 },
+  g: { dimension: 'mass', factor: 0.001 },
+  kg: { dimension: 'mass', factor: 1 },
+  t: { dimension: 'mass', factor: 1000 },
+  oz: { dimension: 'mass', factor: 0.028349523125 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  ml: { dimension: 'volume', factor: 0.001 },
+  cl: { dimension: 'volume', factor: 0.01 },
+  l: { dimension: 'volume', factor: 1 },
+  gal: { dimension: 'volume', factor: 3.785411784 },
+  ms: { dimension: 'time', factor: 0.001 },
+  s: { dimension: 'time', factor: 1 },
+  min: { dimension: 'time', factor: 60 },
+  h: { dimension: 'time', factor: 3600 },
+  d: { dimension: 'time', factor: 86400 },
+  b: { dimension: 'data', factor: 1 },
+  kb: { dimension: 'data', factor: 1e3 },
+  mb: { dimension: 'data', factor: 1e6 },
+  gb: { dimension: 'data', factor: 1e9 },
+  tb: { dimension: 'data', factor: 1e12 }
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  millimeter: 'mm', millimetre: 'mm', centimeter: 'cm', centimetre: 'cm', meter: 'm', metre: 'm',
+  kilometer: 'km', kilometre: 'km', inch: 'in', '"': 'in', foot: 'ft', feet: 'ft', "'": 'ft',
+  yard: 'yd', mile: 'mi', milligram: 'mg', gram: 'g', kilogram: 'kg', kilo: 'kg', tonne: 't',
+  ounce: 'oz', pound: 'lb', lbs: 'lb', milliliter: 'ml', millilitre: 'ml', liter: 'l', litre: 'l',
+  gallon: 'gal', millisecond: 'ms', second: 's', sec: 's', minute: 'min', hour: 'h', hr: 'h', day: 'd',
+  byte: 'b', kilobyte: 'kb', megabyte: 'mb', gigabyte: 'gb', terabyte: 'tb'
+};
+
+const CURRENCY_SYMBOLS = /[$€£¥₹₩₽₺₪₦฿¢]|\b(?:US|CA|AU|NZ|HK|S)\$/g;
+const CURRENCY_CODE = /\b[A-Z]{3}\b/g;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const round = (value: number) => Number(value.toPrecision(15));
+
+const unitKey = (unit: string) => {
+  const key = unit.trim().toLowerCase().replace(/\.$/, '');
+  const singular = key.length > 2 && key.endsWith('s') ? key.slice(0, -1) : key;
+  return UNITS[key] ? key : UNIT_ALIASES[key] || UNIT_ALIASES[singular] || (UNITS[singular] ? singular : key);
+};
+
+// "1,234.56", "1.234,56", "1 234" and "1'234" all read as the same number; a lone comma
+// followed by three digits is a thousands separator, otherwise a decimal comma
+function parseDecimal(input: string) {
+  const text = input.replace(/[\s']/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  let normalized = text;
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    normalized = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    normalized = /^\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3}){2,}$/.test(text)) {
+    normalized = text.replace(/\./g, '');
+  }
+
+  return /^\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : null;
+}
+
+// A number with an optional sign, accounting-style parentheses and magnitude suffix
+function parseAmount(input: string, magnitudes: boolean) {
+  let text = input.trim();
+  let sign = 1;
+
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1).trim();
+  }
+  if (/^[-−–]/.test(text)) {
+    sign = -sign;
+    text = text.slice(1).trim();
+  } else if (text.startsWith('+')) {
+    text = text.slice(1).trim();
+  }
+
+  const match = text.match(/^(\d[\d.,'\s]*?)\s*([a-z]+)?\.?$/i);
+  if (!match) {
+    return null;
+  }
+  const number = parseDecimal(match[1]);
+  const multiplier = match[2] ? (magnitudes ? MAGNITUDES[match[2].toLowerCase()] : undefined) : 1;
+  return number === null || multiplier === undefined ? null : round(sign * number * multiplier);
+}
+
+function parseDate(value: unknown, dateOnly: boolean) {
+  if (typeof value === 'string' && ISO_DATE.test(value.trim())) {
+    return dateOnly ? value.trim() : new Date(`${value.trim()}T00:00:00Z`).toISOString();
+  }
+
+  let date: Date;
+  if (typeof value === 'number') {
+    // Unix timestamps in seconds or milliseconds
+    date = new Date(value < 1e11 ? value * 1000 : value);
+  } else if (typeof value === 'string') {
+    const text = value.trim().replace(/(\d)(st|nd|rd|th)\b/gi, '$1');
+    date = new Date(/^\d{10}(\d{3})?$/.test(text) ? Number(text) * (text.length === 10 ? 1000 : 1) : text);
+  } else {
+    return null;
+  }
+
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+  if (!dateOnly) {
+    return date.toISOString();
+  }
+  // Non-ISO strings are parsed as local time, so read the calendar date back the same way
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseUnit(input: string, target: string) {
+  const to = UNITS[unitKey(target)];
+  const match = input.trim().match(/^([-−]?\d[\d.,'\s]*?)\s*([a-zA-Z"' ]+)?\.?$/);
+  if (!to || !match) {
+    return null;
+  }
+
+  const number = parseAmount(match[1], false);
+  // A bare number is taken to already be in the target unit
+  const from = match[2] ? UNITS[unitKey(match[2])] : to;
+  if (number === null || !from || from.dimension !== to.dimension) {
+    return null;
+  }
+  return round((number * from.factor) / to.factor);
+}
+
+const toRule = (rule: NonNullable<JsonSchema['x-normalize']>): NormalizeRule =>
+  typeof rule === 'string' ? { type: rule } : rule;
+
+// Apply one rule; returns undefined when the value can't be interpreted, leaving it for validation
+// (and the repair pass) to report. Values that are already normalized pass through unchanged.
+export function applyRule(value: unknown, rule: NormalizeRule, schema: JsonSchema = {}): unknown {
+  switch (rule.type) {
+    case 'currency':
+      return typeof value === 'number' ? value : parseAmount(
+        String(value).replace(CURRENCY_SYMBOLS, '').replace(CURRENCY_CODE, ''),
+        true
+      ) ?? undefined;
+    case 'magnitude':
+      return typeof value === 'number' ? value : parseAmount(String(value), true) ?? undefined;
+    case 'percent': {
+      if (typeof value === 'number') return value;
+      const number = parseAmount(String(value).replace(/%|\bper\s?cent\b|\bpct\b/gi, ''), false);
+      if (number === null) return undefined;
+      return rule.as === 'fraction' ? round(number / 100) : number;
+    }
+    case 'date':
+      return parseDate(value, schema.format === 'date') ?? undefined;
+    case 'unit':
+      if (!rule.unit) return undefined;
+      return typeof value === 'number' ? value : parseUnit(String(value), rule.unit) ?? undefined;
+    default:
+      return undefined;
+  }
+}
+
+// Reject unknown rules up front so misconfigured schemas fail before any extraction runs
+export function checkNormalizeRules(schema: JsonSchema, root: JsonSchema = schema, seen = new Set<JsonSchema>()) {
+  if (seen.has(schema)) return;
+  seen.add(schema);
+
+  if (schema['x-normalize'] !== undefined) {
+    const parsed = normalizeRuleSchema.safeParse(schema['x-normalize']);
+    if (!parsed.success) {
+      throw new Error(`Invalid x-normalize rule: ${JSON.stringify(schema['x-normalize'])}`);
+    }
+    const rule = parsed.data;
+    if (typeof rule === 'object' && rule.type === 'unit' && !UNITS[unitKey(rule.unit || '')]) {
+      throw new Error(`Unsupported x-normalize unit: ${rule.unit ?? '(missing)'}`);
+    }
+  }
+
+  const children = [
+    ...Object.values(schema.properties || {}),
+    ...(schema.items ? [schema.items] : []),
+    ...(schema.anyOf || []), ...(schema.oneOf || []), ...(schema.allOf || []),
+    ...(schema.$ref ? [resolveRef(root, schema.$ref)] : [])
+  ];
+  children.forEach(child => checkNormalizeRules(child, root, seen));
+}
+
+function walk(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, result: NormalizeResult): unknown {
+  const node = schema.$ref ? resolveRef(root, schema.$ref) : schema;
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  const rule = node['x-normalize'];
+  if (rule !== undefined) {
+    const parsed = toRule(rule);
+    const normalized = applyRule(value, parsed, node);
+    if (normalized === undefined || normalized === value) {
+      return value;
+    }
+    if (parsed.keepRaw) {
+      result.raw[path || '/'] = value;
+    }
+    result.normalized.push(path || '/');
+    return normalized;
+  }
+
+  if (Array.isArray(value) && node.items) {
+    return value.map((item, index) => walk(item, node.items!, root, `${path}/${index}`, result));
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value) && (node.properties || hasType(node, 'object'))) {
+    const output: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [key, property] of Object.entries(node.properties || {})) {
+      if (key in output) {
+        output[key] = walk(output[key], property, root, `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`, result);
+      }
+    }
+    return output;
+  }
+  return value;
+}
+
+// Turn display strings into the values the schema declares with x-normalize, e.g.
+// { "type": "number", "x-normalize": "currency" } reads "$699.42" as 699.42
+export function normalizeData(data: unknown, schema: JsonSchema): NormalizeResult {
+  const result: NormalizeResult = { data, raw: {}, normalized: [] };
+  result.data = walk(data, schema, schema, '', result);
+  return result;
+}
+
+// The schema sent to extraction providers: normalized fields ask for the value as displayed
+// ("$1.73T", "12 kg") instead of making the model do the conversion, which it often gets wrong
+export function extractionSchema(schema: JsonSchema): JsonSchema {
+  const transform = (node: unknown): unknown => {
+    if (Array.isArray(node)) {
+      return node.map(transform);
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const source = node as JsonSchema;
+    if (source['x-normalize'] !== undefined) {
+      const { type: ruleType } = toRule(source['x-normalize']);
+      return {
+        type: ['string', 'number', 'null'],
+        description: `${source.description ? `${source.description}. ` : ''}Copy the ${ruleType} value exactly as shown on the page, including symbols, suffixes and units.`
+      };
+    }
+    return Object.fromEntries(Object.entries(source).map(([key, value]) => [key, transform(value)]));
+  };
+  return transform(schema) as JsonSchema;
+}
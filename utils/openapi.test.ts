@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { buildOpenApiDocument } from '@/utils/openapi';
+import type { StoredEndpoint } from '@/utils/snapshots';
+
+const snapshot = (schema: JsonSchema): StoredEndpoint => ({
+  data: {},
+  metadata: { query: 'test', schema, sources: ['https://example.com'], lastUpdated: new Date().toISOString() }
+});
+
+// Follow a local JSON pointer through the document
+const resolve = (document: unknown, pointer: string) =>
+  pointer.slice(2).split('/').reduce((node: unknown, part) => (node as Record<string, unknown>)?.[part], document);
+
+describe('buildOpenApiDocument', () => {
+  it('points local $refs into the endpoint component', () => {
+    const document = buildOpenApiDocument([{
+      endpoint: 'categories',
+      snapshot: snapshot({
+        type: 'object',
+        definitions: {
+          category: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/definitions/category' } } } }
+        },
+        properties: { root: { $ref: '#/definitions/category' } }
+      })
+    }], 'https://api.example.com');
+
+    const component = document.components.schemas.CategoriesData as { properties: { root: { $ref: string } } };
+    expect(component.properties.root.$ref).toBe('#/components/schemas/CategoriesData/definitions/category');
+    expect(resolve(document, component.properties.root.$ref)).toMatchObject({ type: 'object' });
+  });
+
+  it('gives endpoints with the same PascalCase name separate components and operations', () => {
+    const document = buildOpenApiDocument([
+      { endpoint: 'foo-bar', snapshot: snapshot({ type: 'object', properties: { a: { type: 'string' } } }) },
+      { endpoint: 'foo_bar', snapshot: snapshot({ type: 'object', properties: { b: { type: 'string' } } }) },
+      { endpoint: 'error-response', snapshot: snapshot({ type: 'object', properties: { c: { type: 'string' } } }) }
+    ], 'https://api.example.com');
+
+    const paths = document.paths as Record<string, { get: { operationId: string } }>;
+    expect(Object.keys(document.components.schemas)).toEqual(expect.arrayContaining(['FooBarData', 'FooBar2Data', 'ErrorResponseData']));
+    expect(paths['/api/results/foo-bar'].get.operationId).toBe('getFooBar');
+    expect(paths['/api/results/foo_bar'].get.operationId).toBe('getFooBar2');
+  });
+});
@@ -0,0 +1,330 @@
+// OpenAPI 3.1 documents describing the deployed /api/results/* endpoints
+import { nameAllocator, pascalCase } from '@/utils';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import type { StoredEndpoint } from '@/utils/snapshots';
+
+type OpenApiObject = Record<string, unknown>;
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// Point local $refs (#/definitions/item, #/$defs/node, ...) at the same place under the
+// component, since "#" now means the OpenAPI document rather than the stored schema
+function rewriteRefs(value: unknown, pointer: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => rewriteRefs(item, pointer));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [
+      key,
+      key === '$ref' && typeof child === 'string' && child.startsWith('#') ? `${pointer}${child.slice(1)}` : rewriteRefs(child, pointer)
+    ]));
+  }
+  return value;
+}
+
+// Stored schemas are plain JSON Schema, which OpenAPI 3.1 accepts as-is apart from $schema/$id
+// and where local references point
+function toComponentSchema(schema: JsonSchema | undefined, name: string): OpenApiObject {
+  if (!schema) {
+    return {};
+  }
+  const { $schema, $id, ...rest } = schema as JsonSchema & { $schema?: string; $id?: string };
+  return rewriteRefs(rest, ref(name).$ref) as OpenApiObject;
+}
+
+const rateLimitHeaders = {
+  'X-RateLimit-Limit': { schema: { type: 'integer' }, description: 'Requests allowed in the current window' },
+  'X-RateLimit-Remaining': { schema: { type: 'integer' }, description: 'Requests left in the current window' },
+  'X-RateLimit-Reset': { schema: { type: 'integer' }, description: 'Unix time when the window resets' }
+};
+
+const errorResponse = (description: string, extraHeaders: OpenApiObject = {}) => ({
+  description,
+  headers: { ...rateLimitHeaders, ...extraHeaders },
+  content: { 'application/json': { schema: ref('ErrorResponse') } }
+});
+
+const errorResponses = {
+  '400': errorResponse('Invalid query parameters'),
+  '401': errorResponse('Missing or invalid API key', {
+    'WWW-Authenticate': { schema: { type: 'string' } }
+  }),
+  '403': errorResponse('API key revoked or not authorized for this endpoint'),
+  '404': errorResponse('No results found'),
+  '429': errorResponse('Rate limit or monthly quota exceeded', {
+    'Retry-After': { schema: { type: 'integer' }, description: 'Seconds to wait before retrying' }
+  }),
+  '500': errorResponse('Server error')
+};
+
+const queryParameters = [
+  { name: 'fields', in: 'query', schema: { type: 'string' }, description: 'Comma-separated fields to return' },
+  { name: 'filter', in: 'query', schema: { type: 'array', items: { type: 'string' } }, style: 'form', explode: true, description: 'Filter expression such as price<100; repeat for AND' },
+  { name: 'sort', in: 'query', schema: { type: 'string' }, description: 'Comma-separated sort fields, prefix with - for descending' },
+  { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 1000 } },
+  { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Cursor from pagination.nextCursor' },
+  { name: 'collection', in: 'query', schema: { type: 'string' }, description: 'Array property to filter, sort and paginate' },
+  { name: 'format', in: 'query', schema: { type: 'string', enum: ['json', 'csv', 'ndjson', 'xml'] } },
+  { name: 'version', in: 'query', schema: { type: 'integer', minimum: 1 }, description: 'Snapshot version to return' },
+  { name: 'at', in: 'query', schema: { type: 'string', format: 'date-time' }, description: 'Return the snapshot current at this time' },
+  { name: 'schema', in: 'query', schema: { type: 'boolean' }, description: 'Return the stored data together with its metadata and schema' },
+  { name: 'provenance', in: 'query', schema: { type: 'boolean' }, description: 'Include the source URL and confidence of each top-level field' },
+  { name: 'raw', in: 'query', schema: { type: 'boolean' }, description: 'Include values as extracted, before normalization, keyed by JSON pointer' }
+];
+
+function endpointPaths(endpoint: string, name: string, dataSchemaName: string): OpenApiObject {
+  const base = `/api/results/${endpoint}`;
+
+  return {
+    [base]: {
+      get: {
+        operationId: `get${name}`,
+        summary: `Get results for ${endpoint}`,
+        tags: [endpoint],
+        parameters: queryParameters,
+        responses: {
+          '200': {
+            description: 'Extracted data',
+            headers: {
+              ...rateLimitHeaders,
+              ETag: { schema: { type: 'string' } },
+              'Last-Modified': { schema: { type: 'string' } }
+            },
+            content: {
+              'application/json': {
+                schema: {
+                  allOf: [ref('ResultsEnvelope'), { type: 'object', properties: { data: ref(dataSchemaName) } }]
+                }
+              },
+              'text/csv': { schema: { type: 'string' } },
+              'application/x-ndjson': { schema: { type: 'string' } },
+              'application/xml': { schema: { type: 'string' } }
+            }
+          },
+          '304': { description: 'Not modified since the supplied ETag or date' },
+          '406': errorResponse('None of the accepted media types can be produced'),
+          ...errorResponses
+        }
+      }
+    },
+    [`${base}/versions`]: {
+      get: {
+        operationId: `list${name}Versions`,
+        summary: `List stored snapshots for ${endpoint}`,
+        tags: [endpoint],
+        responses: {
+          '200': {
+            description: 'Snapshot versions, newest first',
+            content: { 'application/json': { schema: ref('VersionList') } }
+          },
+          ...errorResponses
+        }
+      }
+    },
+    [`${base}/diff`]: {
+      get: {
+        operationId: `diff${name}`,
+        summary: `Diff two snapshots of ${endpoint}`,
+        tags: [endpoint],
+        parameters: [
+          { name: 'from', in: 'query', schema: { type: 'integer', minimum: 1 } },
+          { name: 'to', in: 'query', schema: { type: 'integer', minimum: 1 } }
+        ],
+        responses: {
+          '200': {
+            description: 'JSON-patch style diff',
+            content: { 'application/json': { schema: ref('SnapshotDiff') } }
+          },
+          ...errorResponses
+        }
+      }
+    },
+    [`${base}/stream`]: {
+      get: {
+        operationId: `stream${name}`,
+        summary: `Server-Sent Events stream of ${endpoint} snapshots`,
+        tags: [endpoint],
+        parameters: [
+          { name: 'token', in: 'query', schema: { type: 'string' }, description: 'Stream token from the token operation, for clients that cannot set headers' },
+          { name: 'Last-Event-ID', in: 'header', schema: { type: 'string' }, description: 'Resume after this snapshot version' }
+        ],
+        responses: {
+          '200': { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+          ...errorResponses
+        }
+      }
+    },
+    [`${base}/stream/token`]: {
+      post: {
+        operationId: `create${name}StreamToken`,
+        summary: `Create a short-lived token for the ${endpoint} stream URL`,
+        tags: [endpoint],
+        responses: {
+          '200': {
+            description: 'Stream token, valid for 15 minutes',
+            content: { 'application/json': { schema: ref('StreamToken') } }
+          },
+          ...errorResponses
+        }
+      }
+    }
+  };
+}
+
+const sharedSchemas: OpenApiObject = {
+  StreamToken: {
+    type: 'object',
+    required: ['success', 'token', 'expiresAt', 'streamUrl'],
+    properties: {
+      success: { type: 'boolean', const: true },
+      endpoint: { type: 'string' },
+      token: { type: 'string' },
+      expiresAt: { type: 'string', format: 'date-time' },
+      streamUrl: { type: 'string' }
+    }
+  },
+  ErrorResponse: {
+    type: 'object',
+    required: ['success', 'error'],
+    properties: {
+      success: { type: 'boolean', const: false },
+      error: { type: 'string' },
+      details: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { field: { type: 'string' }, message: { type: 'string' } }
+        }
+      }
+    }
+  },
+  Pagination: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer' },
+      total: { type: 'integer' },
+      nextCursor: { type: ['string', 'null'] }
+    }
+  },
+  ResultsEnvelope: {
+    type: 'object',
+    required: ['success', 'data'],
+    properties: {
+      success: { type: 'boolean', const: true },
+      data: {},
+      pagination: ref('Pagination'),
+      lastUpdated: { type: 'string', format: 'date-time' },
+      sources: { type: 'array', items: { type: 'string', format: 'uri' } },
+      version: { type: 'integer' },
+      provenance: {
+        type: ['object', 'null'],
+        additionalProperties: ref('FieldProvenance'),
+        description: 'Only present with ?provenance=true'
+      },
+      raw: {
+        type: ['object', 'null'],
+        additionalProperties: true,
+        description: 'Only present with ?raw=true'
+      }
+    }
+  },
+  FieldProvenance: {
+    type: 'object',
+    properties: {
+      source: { type: ['string', 'null'] },
+      agreeing: { type: 'array', items: { type: 'string' } },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      strategy: { type: 'string', enum: ['first-non-null', 'majority', 'most-recent', 'llm'] }
+    }
+  },
+  SnapshotSummary: {
+    type: 'object',
+    properties: {
+      version: { type: 'integer' },
+      createdAt: { type: 'string', format: 'date-time' },
+      sources: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  VersionList: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      endpoint: { type: 'string' },
+      retention: { type: 'integer' },
+      versions: { type: 'array', items: ref('SnapshotSummary') }
+    }
+  },
+  SnapshotDiff: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      from: ref('SnapshotSummary'),
+      to: ref('SnapshotSummary'),
+      summary: {
+        type: 'object',
+        properties: {
+          added: { type: 'integer' },
+          removed: { type: 'integer' },
+          changed: { type: 'integer' },
+          total: { type: 'integer' }
+        }
+      },
+      operations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['op', 'path'],
+          properties: {
+            op: { type: 'string', enum: ['add', 'remove', 'replace'] },
+            path: { type: 'string' },
+            value: {},
+            oldValue: {}
+          }
+        }
+      }
+    }
+  }
+};
+
+export function buildOpenApiDocument(endpoints: { endpoint: string; snapshot: StoredEndpoint }[], serverUrl: string) {
+  const paths: OpenApiObject = {};
+  const schemas: OpenApiObject = { ...sharedSchemas };
+  // Endpoints such as foo-bar and foo_bar share a PascalCase name, so later ones get a suffix
+  const uniqueName = nameAllocator();
+  const uniqueSchemaName = nameAllocator(Object.keys(sharedSchemas));
+
+  for (const { endpoint, snapshot } of endpoints) {
+    const name = uniqueName(pascalCase(endpoint));
+    const dataSchemaName = uniqueSchemaName(`${name}Data`);
+    schemas[dataSchemaName] = {
+      ...toComponentSchema(snapshot.metadata.schema, dataSchemaName),
+      ...(snapshot.metadata.query && { description: snapshot.metadata.query })
+    };
+    Object.assign(paths, endpointPaths(endpoint, name, dataSchemaName));
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: endpoints.length === 1 ? `${endpoints[0].endpoint} API` : 'LLM API Engine',
+      version: endpoints.length === 1 ? String(endpoints[0].snapshot.metadata.version ?? 1) : '1.0.0',
+      description: endpoints.length === 1
+        ? endpoints[0].snapshot.metadata.query
+        : 'Structured data APIs generated by LLM API Engine'
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    tags: endpoints.map(({ endpoint, snapshot }) => ({ name: endpoint, description: snapshot.metadata.query })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Per-endpoint API key (sk_...) returned when the endpoint is deployed'
+        }
+      },
+      schemas
+    }
+  };
+}
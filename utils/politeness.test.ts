@@ -0,0 +1,53 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { getRobotsPolicy, isAllowed } from '@/utils/politeness';
+
+// Serves whatever robots.txt the test sets
+let robots = '';
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(robots);
+});
+let origin = '';
+
+beforeAll(async () => {
+  process.env.ALLOW_PRIVATE_SOURCES = 'true';
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  delete process.env.ALLOW_PRIVATE_SOURCES;
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+});
+
+describe('getRobotsPolicy', () => {
+  it('reads the rules for our user agent', async () => {
+    robots = 'User-agent: *\nDisallow: /private\n';
+    const policy = await getRobotsPolicy(`${origin}/page`);
+
+    expect(isAllowed(policy, `${origin}/private/a`)).toBe(false);
+    expect(isAllowed(policy, `${origin}/public`)).toBe(true);
+  });
+
+  it('ignores rules past the first 500 KB', async () => {
+    const padding = '# padding\n'.repeat(60 * 1024);
+    robots = `User-agent: *\nDisallow: /early\n${padding}Disallow: /late\n`;
+    const policy = await getRobotsPolicy(`${origin}/page`);
+
+    expect(policy.unreachable).toBeUndefined();
+    expect(isAllowed(policy, `${origin}/early`)).toBe(false);
+    expect(isAllowed(policy, `${origin}/late`)).toBe(true);
+  });
+});
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import { redis } from '@/utils/redis';
+import { assertPublicUrl, UnsafeUrlError } from '@/utils/urlSafety';
+
+// Sent with every source request and matched against robots.txt user-agent groups
+export const USER_AGENT = 'llm-api-engine';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+// The rules that apply to our user agent, as cached per origin
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  // Seconds between requests, if the site asks for it
+  crawlDelay: number | null;
+  // Set when robots.txt couldn't be fetched; the whole site is treated as disallowed meanwhile
+  unreachable?: string;
+}
+
+export interface RobotsCheck {
+  url: string;
+  allowed: boolean;
+  crawlDelay: number | null;
+  reason?: string;
+}
+
+export class RobotsBlockedError extends Error {
+  url: string;
+
+  constructor(url: string, reason: string) {
+    super(reason);
+    this.name = 'RobotsBlockedError';
+    this.url = url;
+  }
+}
+
+const ROBOTS_TTL_SECONDS = 60 * 60 * 24;
+// Retry unreachable robots.txt files sooner, so an outage doesn't block a site for a day
+const UNREACHABLE_TTL_SECONDS = 60 * 10;
+const ROBOTS_TIMEOUT_MS = 10000;
+const ROBOTS_MAX_REDIRECTS = 5;
+// Like Google, only the first 500 KB of a robots.txt file is read; rules past it are ignored
+const ROBOTS_MAX_BYTES = 500 * 1024;
+// Held slots expire in case the process holding them dies mid-request
+const SLOT_TTL_MS = 2 * 60 * 1000;
+const MAX_WAIT_MS = 2 * 60 * 1000;
+const POLL_INTERVAL_MS = 250;
+
+const robotsKey = (origin: string) => `api/robots/${origin}`;
+const activeKey = (host: string) => `api/politeness/${host}/active`;
+const turnKey = (host: string) => `api/politeness/${host}/turn`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Limits per host, shared by every endpoint and process through Redis
+export const domainLimits = () => ({
+  maxConcurrency: Math.floor(positiveNumber(process.env.DOMAIN_MAX_CONCURRENCY, 2)),
+  requestsPerMinute: positiveNumber(process.env.DOMAIN_REQUESTS_PER_MINUTE, 30)
+});
+
+// Only the groups for our user agent, or for * when there are none, are kept (RFC 9309)
+export function parseRobots(text: string): RobotsPolicy {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let collectingAgents = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.replace(/#.*$/, '').match(/^\s*([A-Za-z-]+)\s*:\s*(.*?)\s*$/);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2];
+
+    if (field === 'user-agent') {
+      if (!collectingAgents || !current) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay' && Number.isFinite(Number(value))) {
+      current.crawlDelay = Number(value);
+    }
+  }
+
+  const ours = groups.filter(group => group.agents.includes(USER_AGENT));
+  const matching = ours.length > 0 ? ours : groups.filter(group => group.agents.includes('*'));
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== null);
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null
+  };
+}
+
+// Robots patterns: * matches any characters and a trailing $ anchors the end
+const ruleMatches = (path: string, pattern: string) => {
+  const anchored = pattern.endsWith('$');
+  const expression = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${expression}${anchored ? '$' : ''}`).test(path);
+};
+
+// The longest matching rule wins; Allow wins a tie
+export function isAllowed(policy: RobotsPolicy, url: string) {
+  const parsed = new URL(url);
+  const path = `${parsed.pathname}${parsed.search}`;
+  if (parsed.pathname === '/robots.txt') {
+    return true;
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!ruleMatches(path, rule.path)) continue;
+    if (!best || rule.path.length > best.path.length || (rule.path.length === best.path.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+// Read at most ROBOTS_MAX_BYTES of the body, dropping a line cut off at the limit
+async function readRobots(response: Response) {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > ROBOTS_MAX_BYTES) {
+      await reader.cancel();
+      const text = Buffer.concat(chunks).subarray(0, ROBOTS_MAX_BYTES).toString('utf8');
+      return text.slice(0, text.lastIndexOf('\n') + 1);
+    }
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function fetchRobots(origin: string): Promise<RobotsPolicy> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), ROBOTS_TIMEOUT_MS);
+
+  try {
+    // Redirects are followed by hand so none of them can lead to a private address
+    let url = `${origin}/robots.txt`;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicUrl(url);
+      response = await fetch(url, {
+        headers: { 'User-Agent': USER_AGENT },
+        redirect: 'manual',
+        signal: controller.signal
+      });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location || redirects === ROBOTS_MAX_REDIRECTS) {
+        break;
+      }
+      url = new URL(location, url).toString();
+    }
+    // A missing robots.txt (any 4xx) allows everything; a server error means we can't tell yet
+    if (response.status >= 500) {
+      return { rules: [], crawlDelay: null, unreachable: `robots.txt returned ${response.status}` };
+    }
+    if (!response.ok) {
+      return { rules: [], crawlDelay: null };
+    }
+    return parseRobots(await readRobots(response));
+  } catch (error) {
+    return { rules: [], crawlDelay: null, unreachable: `robots.txt could not be fetched (${error instanceof Error ? error.message : 'network error'})` };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function getRobotsPolicy(url: string) {
+  const { origin } = new URL(url);
+  const cached = await redis.get<RobotsPolicy>(robotsKey(origin));
+  if (cached) {
+    return cached;
+  }
+
+  const policy = await fetchRobots(origin);
+  await redis.set(robotsKey(origin), policy, { ex: policy.unreachable ? UNREACHABLE_TTL_SECONDS : ROBOTS_TTL_SECONDS });
+  return policy;
+}
+
+// Whether robots.txt lets us fetch a URL; only http(s) URLs are checked
+export async function checkRobots(url: string): Promise<RobotsCheck> {
+  if (!/^https?:$/.test(new URL(url).protocol)) {
+    return { url, allowed: true, crawlDelay: null };
+  }
+  try {
+    await assertPublicUrl(url);
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return { url, allowed: false, crawlDelay: null, reason: error.message };
+    }
+    throw error;
+  }
+
+  const policy = await getRobotsPolicy(url);
+  if (policy.unreachable) {
+    return { url, allowed: false, crawlDelay: policy.crawlDelay, reason: `Blocked: ${policy.unreachable}` };
+  }
+  return isAllowed(policy, url)
+    ? { url, allowed: true, crawlDelay: policy.crawlDelay }
+    : { url, allowed: false, crawlDelay: policy.crawlDelay, reason: 'Disallowed by robots.txt' };
+}
+
+// Wait for one of the host's concurrency slots, returning a function that frees it. A slot is
+// claimed optimistically and given back if that put the host over its limit.
+// Dropping expired slots, counting and claiming run as one script so concurrent callers can't
+// all see room under the limit
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now)
+if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], now + tonumber(ARGV[3]), ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 1
+`;
+
+// Slots expire so a crashed worker can't hold one forever; while the work runs (a Firecrawl
+// extraction with retries can outlast the TTL) the slot is extended on this interval
+const SLOT_REFRESH_MS = SLOT_TTL_MS / 3;
+
+async function acquireSlot(host: string, maxConcurrency: number, deadline: number) {
+  const key = activeKey(host);
+  const member = crypto.randomBytes(8).toString('hex');
+
+  for (;;) {
+    const claimed = await redis.eval<string[], number>(
+      ACQUIRE_SCRIPT,
+      [key],
+      [String(Date.now()), String(maxConcurrency), String(SLOT_TTL_MS), member]
+    );
+    if (claimed) {
+      const refresh = setInterval(() => {
+        redis.zadd(key, { xx: true }, { score: Date.now() + SLOT_TTL_MS, member })
+          .then(() => redis.pexpire(key, SLOT_TTL_MS))
+          .catch(error => console.error(`Failed to refresh fetch slot for ${host}:`, error));
+      }, SLOT_REFRESH_MS);
+      return async () => {
+        clearInterval(refresh);
+        await redis.zrem(key, member);
+      };
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting to fetch from ${host}: too many requests in progress`);
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
+
+// Wait until the host's minimum interval since the last request start has passed
+async function waitForTurn(host: string, intervalMs: number, deadline: number) {
+  for (;;) {
+    const claimed = await redis.set(turnKey(host), Date.now(), { nx: true, px: Math.max(1, Math.round(intervalMs)) });
+    if (claimed) {
+      return;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting to fetch from ${host}: request rate limit`);
+    }
+    const remaining = await redis.pttl(turnKey(host));
+    await sleep(Math.min(Math.max(remaining, POLL_INTERVAL_MS), 5000));
+  }
+}
+
+// Run a request to a source URL once robots.txt allows it and the host's limits have room.
+// With a crawl-delay, requests to the host are also made one at a time.
+export async function politely<T>(url: string, run: () => Promise<T>): Promise<T> {
+  const robots = await checkRobots(url);
+  if (!robots.allowed) {
+    throw new RobotsBlockedError(url, `${robots.reason}: ${url}`);
+  }
+
+  const { host } = new URL(url);
+  const limits = domainLimits();
+  const intervalMs = Math.max((robots.crawlDelay ?? 0) * 1000, 60000 / limits.requestsPerMinute);
+  const deadline = Date.now() + MAX_WAIT_MS;
+
+  const release = await acquireSlot(host, robots.crawlDelay ? 1 : limits.maxConcurrency, deadline);
+  try {
+    await waitForTurn(host, intervalMs, deadline);
+    return await run();
+  } finally {
+    await release().catch(() => undefined);
+  }
+}
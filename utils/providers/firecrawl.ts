@@ -0,0 +1,50 @@
+import FirecrawlApp from '@mendable/firecrawl-js';
+import { ExtractionError } from '@/utils/extraction';
+import { jsonSchemaToZod } from '@/utils/schemaToZod';
+import { extractionSchema } from '@/utils/normalize';
+import { sourceRequestHeaders } from '@/utils/sourceAuth';
+import { politely } from '@/utils/politeness';
+import { recordFirecrawlUsage } from '@/utils/spend';
+import type { ExtractionProvider } from '@/utils/providers';
+
+export function createFirecrawlProvider(): ExtractionProvider {
+  if (!process.env.FIRECRAWL_API_KEY) {
+    throw new ExtractionError('Firecrawl API key is not configured');
+  }
+
+  const app = new FirecrawlApp({ apiKey: process.env.FIRECRAWL_API_KEY });
+
+  return {
+    name: 'firecrawl',
+    async extract(url, request) {
+      // Firecrawl makes the request, but it still counts against the site's robots.txt and limits
+      return politely(url, async () => {
+        // The extract API can't send custom headers, so authenticated sources are scraped instead
+        const headers = sourceRequestHeaders(url, request.sourceAuth);
+        if (Object.keys(headers).length > 0) {
+          const scraped = await app.scrapeUrl(url, {
+            formats: ['json'],
+            headers,
+            jsonOptions: { prompt: request.query, schema: jsonSchemaToZod(extractionSchema(request.schema)) }
+          });
+          if (!scraped.success) {
+            throw new Error(scraped.error || 'Firecrawl scrape failed');
+          }
+          await recordFirecrawlUsage(request.endpoint);
+          return { data: scraped.json as Record<string, unknown> };
+        }
+
+        const result = await app.extract([url], {
+          prompt: request.query,
+          schema: jsonSchemaToZod(extractionSchema(request.schema))
+        });
+
+        if (!result.success) {
+          throw new Error(result.error || 'Firecrawl extraction failed');
+        }
+        await recordFirecrawlUsage(request.endpoint);
+        return { data: result.data };
+      });
+    }
+  };
+}
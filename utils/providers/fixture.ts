@@ -0,0 +1,32 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FetchedPage } from '@/utils/providers/llm';
+
+const fixturesDir = () => path.resolve(process.env.FIXTURES_DIR || path.join(process.cwd(), 'fixtures'));
+
+// fixture://products → products.html; https://example.com/a/b → example.com_a_b.html.
+// Query strings are kept so paginated URLs (?page=2) map to their own files.
+export function fixturePath(url: string) {
+  const parsed = new URL(url);
+  const query = parsed.search ? `_${parsed.search.slice(1)}`.replace(/[^A-Za-z0-9.-]+/g, '_') : '';
+  const name = parsed.protocol === 'fixture:'
+    ? `${parsed.host}${parsed.pathname}${query}`
+    : `${parsed.host}${parsed.pathname}${query}`.replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^_+|_+$/g, '');
+
+  const dir = fixturesDir();
+  const file = path.resolve(dir, /\.html?$/i.test(name) ? name : `${name}.html`);
+  if (!file.startsWith(dir + path.sep)) {
+    throw new Error(`Fixture path escapes the fixtures directory: ${url}`);
+  }
+  return file;
+}
+
+export async function readFixture(url: string): Promise<FetchedPage> {
+  const file = fixturePath(url);
+  try {
+    const [html, stats] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)]);
+    return { url, html, lastModified: stats.mtime.toISOString() };
+  } catch {
+    throw new Error(`No fixture found for ${url} (expected ${path.relative(process.cwd(), file)})`);
+  }
+}
@@ -0,0 +1,42 @@
+import type { ExtractionProviderName } from '@/utils/endpointSettings';
+import type { ExtractionRequest } from '@/utils/extraction';
+import { createFirecrawlProvider } from '@/utils/providers/firecrawl';
+import { createLlmProvider, fetchPage, type FetchedPage, type PageLoader } from '@/utils/providers/llm';
+import { readFixture } from '@/utils/providers/fixture';
+
+export interface ProviderResult {
+  data: Record<string, unknown>;
+  // ISO timestamp of the page's last modification, when known
+  lastModified?: string | null;
+}
+
+// An extraction provider turns one source URL into data shaped by the request's schema.
+// Providers throw on failure; runExtraction records the error against that source.
+// The signal is aborted when the attempt times out.
+export interface ExtractionProvider {
+  name: ExtractionProviderName;
+  extract(url: string, request: ExtractionRequest, signal?: AbortSignal): Promise<ProviderResult>;
+  // Extract from a page that was already fetched, e.g. while crawling
+  extractPage?(page: FetchedPage, request: ExtractionRequest, signal?: AbortSignal): Promise<ProviderResult>;
+}
+
+export const defaultProviderName = (): ExtractionProviderName => {
+  const configured = process.env.EXTRACTION_PROVIDER;
+  return configured === 'llm' || configured === 'fixture' ? configured : 'firecrawl';
+};
+
+// How a provider's pages are fetched, which crawling also uses to discover links
+export const pageLoaderFor = (name: ExtractionProviderName): PageLoader => (name === 'fixture' ? readFixture : fetchPage);
+
+export function createProvider(name: ExtractionProviderName = defaultProviderName()): ExtractionProvider {
+  switch (name) {
+    case 'llm':
+      return createLlmProvider('llm', pageLoaderFor('llm'));
+    // Same model step as 'llm', but pages come from local HTML files so runs work offline
+    case 'fixture':
+      return createLlmProvider('fixture', pageLoaderFor('fixture'));
+    case 'firecrawl':
+    default:
+      return createFirecrawlProvider();
+  }
+}
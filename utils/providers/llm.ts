@@ -0,0 +1,182 @@
+import OpenAI from 'openai';
+import { ExtractionError } from '@/utils/extraction';
+import { htmlTitle, htmlToMarkdown } from '@/utils/htmlToMarkdown';
+import { extractionSchema } from '@/utils/normalize';
+import { sourceRequestHeaders } from '@/utils/sourceAuth';
+import { politely, USER_AGENT } from '@/utils/politeness';
+import { assertPublicUrl } from '@/utils/urlSafety';
+import { recordModelUsage } from '@/utils/spend';
+import type { ExtractionProviderName } from '@/utils/endpointSettings';
+import type { ExtractionRequest } from '@/utils/extraction';
+import type { ExtractionProvider } from '@/utils/providers';
+
+export interface FetchedPage {
+  url: string;
+  html: string;
+  lastModified?: string | null;
+}
+
+export type PageLoader = (url: string, request?: ExtractionRequest, signal?: AbortSignal) => Promise<FetchedPage>;
+
+const FETCH_TIMEOUT_MS = 20000;
+const MAX_REDIRECTS = 5;
+// Pages are held in memory and converted to markdown, so oversized responses are cut off
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+// Keeps prompts within the context window of small local models
+const MAX_MARKDOWN_CHARS = 60000;
+
+async function readBody(response: Response, url: string) {
+  const tooLarge = () => new Error(`Failed to fetch ${url}: response is larger than ${MAX_RESPONSE_BYTES} bytes`);
+  if (Number(response.headers.get('content-length')) > MAX_RESPONSE_BYTES) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// One request, made once the host is known to be public and robots.txt and the host's politeness
+// limits allow it. Redirects are returned rather than followed so the caller can check and throttle each hop.
+async function fetchHop(url: string, request?: ExtractionRequest, signal?: AbortSignal) {
+  await assertPublicUrl(url);
+  return politely(url, async (): Promise<FetchedPage | { location: string }> => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    const cancel = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      cancel();
+    }
+    signal?.addEventListener('abort', cancel);
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+          ...sourceRequestHeaders(url, request?.sourceAuth)
+        },
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        return { location: new URL(location, url).toString() };
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: HTTP ${response.status}`);
+      }
+      const lastModified = Date.parse(response.headers.get('last-modified') || '');
+      return {
+        url,
+        html: await readBody(response, url),
+        lastModified: Number.isNaN(lastModified) ? null : new Date(lastModified).toISOString()
+      };
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', cancel);
+    }
+  });
+}
+
+// Redirects are followed by hand so each hop only gets the source credentials for its own domain
+export async function fetchPage(url: string, request?: ExtractionRequest, signal?: AbortSignal): Promise<FetchedPage> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    const hop = await fetchHop(current, request, signal);
+    if (!('location' in hop)) {
+      return hop;
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`Failed to fetch ${url}: too many redirects`);
+    }
+    current = hop.location;
+  }
+}
+
+// Models sometimes wrap JSON in a code fence despite being asked not to
+export function parseModelJson(content: string) {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const parsed = JSON.parse((fenced ? fenced[1] : content).trim());
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Model did not return a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+// Any OpenAI-compatible server works, e.g. a local stand-in via OPENAI_BASE_URL
+export function createModelClient() {
+  if (!process.env.OPENAI_API_KEY && !process.env.OPENAI_BASE_URL) {
+    throw new ExtractionError('OPENAI_API_KEY or OPENAI_BASE_URL must be configured');
+  }
+  return new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY || 'local',
+    baseURL: process.env.OPENAI_BASE_URL || undefined
+  });
+}
+
+export const extractionModel = () => process.env.EXTRACTION_MODEL || 'gpt-4o-mini';
+
+export function createLlmProvider(
+  name: ExtractionProviderName,
+  loadPage: PageLoader
+): ExtractionProvider {
+  const openai = createModelClient();
+
+  const provider: ExtractionProvider = {
+    name,
+    async extract(url, request, signal) {
+      return provider.extractPage!(await loadPage(url, request, signal), request, signal);
+    },
+    async extractPage(page, request, signal) {
+      const title = htmlTitle(page.html);
+      const markdown = htmlToMarkdown(page.html, page.url).slice(0, MAX_MARKDOWN_CHARS);
+
+      const completion = await openai.chat.completions.create({
+        model: extractionModel(),
+        messages: [
+          {
+            role: 'system',
+            content: `You extract structured data from web pages.
+          Follow these rules:
+          1. Respond with a single JSON object that conforms to the JSON Schema below
+          2. Only use information present on the page; use null when a value is missing
+          3. Do not wrap the JSON in markdown or add commentary
+
+          JSON Schema:
+          ${JSON.stringify(extractionSchema(request.schema))}`
+          },
+          {
+            role: 'user',
+            content: `Task: ${request.query}\n\nSource: ${page.url}${title ? `\nTitle: ${title}` : ''}\n\nPage content:\n${markdown}`
+          }
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0
+      }, { signal });
+      await recordModelUsage(completion, { model: extractionModel(), operation: 'extract', endpoint: request.endpoint });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('Model returned an empty response');
+      }
+      return { data: parseModelJson(content), lastModified: page.lastModified };
+    }
+  };
+  return provider;
+}
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { endpointSettingsSchema } from '@/utils/endpointSettings';
+import { consumeQuota, refundQuota } from '@/utils/rateLimit';
+
+const settings = endpointSettingsSchema.parse({ quota: { monthlyRequests: 2 } });
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+});
+
+describe('consumeQuota', () => {
+  it('denies requests over the monthly quota without counting them', async () => {
+    expect(await consumeQuota('prices', settings)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await consumeQuota('prices', settings)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await consumeQuota('prices', settings)).toMatchObject({ allowed: false, remaining: 0 });
+    expect(await consumeQuota('prices', settings)).toMatchObject({ allowed: false });
+  });
+
+  it('gives refunded requests back', async () => {
+    const first = await consumeQuota('prices', settings);
+    await refundQuota('prices', first!);
+
+    expect(await consumeQuota('prices', settings)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await consumeQuota('prices', settings)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+});
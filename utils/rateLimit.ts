@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { redis } from '@/utils/redis';
+import type { EndpointSettings, RateLimitRule } from '@/utils/endpointSettings';
+
+export interface LimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Unix timestamp (seconds) at which the limit fully resets
+  reset: number;
+  retryAfter: number;
+}
+
+const windowKey = (endpoint: string, scope: 'key' | 'ip', id: string) =>
+  `api/ratelimit/${endpoint}/${scope}/${id}`;
+
+const quotaKey = (endpoint: string, period: string) => `api/quota/${endpoint}/${period}`;
+
+export const currentPeriod = (date = new Date()) => date.toISOString().slice(0, 7);
+
+// Each proxy appends the address it received the request from, so only entries added by our own
+// proxies can be trusted; anything to their left may have been sent by the client. TRUSTED_PROXY_HOPS
+// is how many proxies sit in front of the app (1 on Vercel, which overwrites the header).
+export function getClientIp(req: Request) {
+  const hops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (forwarded?.length) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return req.headers.get('x-real-ip') || 'unknown';
+}
+
+// Sliding window log: each request is a member of a sorted set scored by its timestamp. Trimming,
+// counting and adding run as one script so concurrent requests can't all see room under the limit.
+const WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= tonumber(ARGV[3]) then
+  local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+  return {0, count, oldest[2] or ARGV[1]}
+end
+redis.call('ZADD', KEYS[1], now, ARGV[4])
+redis.call('PEXPIRE', KEYS[1], window)
+return {1, count, 0}
+`;
+
+async function consumeWindow(key: string, rule: RateLimitRule): Promise<LimitResult> {
+  const now = Date.now();
+  const windowMs = rule.windowSeconds * 1000;
+  const member = `${now}:${crypto.randomBytes(4).toString('hex')}`;
+
+  const [allowed, count, oldestScore] = await redis.eval<string[], [number, number, number | string]>(
+    WINDOW_SCRIPT,
+    [key],
+    [String(now), String(windowMs), String(rule.limit), member]
+  );
+
+  if (!allowed) {
+    const retryAfter = Math.max(1, Math.ceil((Number(oldestScore) + windowMs - now) / 1000));
+
+    return {
+      allowed: false,
+      limit: rule.limit,
+      remaining: 0,
+      reset: Math.ceil(now / 1000) + retryAfter,
+      retryAfter
+    };
+  }
+
+  return {
+    allowed: true,
+    limit: rule.limit,
+    remaining: rule.limit - count - 1,
+    reset: Math.ceil((now + windowMs) / 1000),
+    retryAfter: 0
+  };
+}
+
+export function limitIp(endpoint: string, ip: string, settings: EndpointSettings) {
+  return consumeWindow(windowKey(endpoint, 'ip', ip), settings.rateLimit.perIp);
+}
+
+export function limitKey(endpoint: string, keyId: string, settings: EndpointSettings) {
+  return consumeWindow(windowKey(endpoint, 'key', keyId), settings.rateLimit.perKey);
+}
+
+// Monthly quotas are counted per endpoint across every key
+export async function consumeQuota(endpoint: string, settings: EndpointSettings): Promise<LimitResult | null> {
+  if (!settings.quota) {
+    return null;
+  }
+
+  const now = new Date();
+  const nextPeriod = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  const reset = Math.ceil(nextPeriod / 1000);
+  const key = quotaKey(endpoint, currentPeriod(now));
+  const limit = settings.quota.monthlyRequests;
+
+  // Increment first so concurrent requests each see their own count, then give back a denied one
+  const count = await redis.incr(key);
+  await redis.expire(key, 60 * 60 * 24 * 40);
+  if (count > limit) {
+    await redis.decr(key);
+    return {
+      allowed: false,
+      limit,
+      remaining: 0,
+      reset,
+      retryAfter: Math.max(1, reset - Math.ceil(now.getTime() / 1000))
+    };
+  }
+
+  return { allowed: true, limit, remaining: Math.max(0, limit - count), reset, retryAfter: 0 };
+}
+
+// Give back a request consumeQuota counted, in the period it was counted in
+export async function refundQuota(endpoint: string, quota: LimitResult) {
+  await redis.decr(quotaKey(endpoint, currentPeriod(new Date((quota.reset - 1) * 1000))));
+}
+
+export function rateLimitHeaders(results: LimitResult[], quota: LimitResult | null) {
+  // Report the most constrained window so clients back off early enough
+  const tightest = results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(tightest.limit),
+    'X-RateLimit-Remaining': String(tightest.remaining),
+    'X-RateLimit-Reset': String(tightest.reset)
+  };
+
+  if (quota) {
+    headers['X-Quota-Limit'] = String(quota.limit);
+    headers['X-Quota-Remaining'] = String(quota.remaining);
+    headers['X-Quota-Reset'] = String(quota.reset);
+  }
+
+  const blocked = [...results, ...(quota ? [quota] : [])].find(r => !r.allowed);
+  if (blocked) {
+    headers['Retry-After'] = String(blocked.retryAfter);
+  }
+
+  return headers;
+}
+
+export async function getUsage(endpoint: string, settings: EndpointSettings, keyIds: string[]) {
+  const now = Date.now();
+  const rule = settings.rateLimit.perKey;
+  const keys = [];
+
+  for (const id of keyIds) {
+    const count = await redis.zcount(windowKey(endpoint, 'key', id), now - rule.windowSeconds * 1000, '+inf');
+    keys.push({ id, windowCount: count, limit: rule.limit, windowSeconds: rule.windowSeconds });
+  }
+
+  const period = currentPeriod();
+  const used = (await redis.get<number>(quotaKey(endpoint, period))) || 0;
+
+  return {
+    keys,
+    quota: {
+      period,
+      used,
+      limit: settings.quota?.monthlyRequests ?? null
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getBearerToken, verifyApiKey, type ApiKeyCheck, type ApiKeyRecord } from '@/utils/apiKeys';
+import { getEndpointSettings, type EndpointSettings } from '@/utils/endpointSettings';
+import { consumeQuota, getClientIp, limitIp, limitKey, rateLimitHeaders, type LimitResult } from '@/utils/rateLimit';
+
+export type ResultsAccess =
+  | { ok: true; key: ApiKeyRecord; settings: EndpointSettings; headers: Record<string, string>; quota: LimitResult | null }
+  | { ok: false; response: NextResponse };
+
+// Shared gate for every consumer-facing /api/results/* route: IP limit, key, key limit, then quota.
+// `verify` checks the presented credential, an API key unless the route accepts something else.
+export async function authorizeResultsRequest(
+  req: Request,
+  endpoint: string,
+  token = getBearerToken(req),
+  verify: (token: string | null, endpoint: string) => Promise<ApiKeyCheck> = verifyApiKey
+): Promise<ResultsAccess> {
+  const settings = await getEndpointSettings(endpoint);
+
+  // Throttle by IP before touching keys so unauthenticated floods are cut off too
+  const ipLimit = await limitIp(endpoint, getClientIp(req), settings);
+  if (!ipLimit.allowed) {
+    return {
+      ok: false,
+      response: NextResponse.json({
+        success: false,
+        error: 'Rate limit exceeded'
+      }, { status: 429, headers: rateLimitHeaders([ipLimit], null) })
+    };
+  }
+
+  // Require a key scoped to this endpoint
+  const auth = await verify(token, endpoint);
+  if (!auth.ok) {
+    return {
+      ok: false,
+      response: NextResponse.json({
+        success: false,
+        error: auth.error
+      }, {
+        status: auth.status,
+        headers: { ...rateLimitHeaders([ipLimit], null), 'WWW-Authenticate': 'Bearer' }
+      })
+    };
+  }
+
+  const keyLimit = await limitKey(endpoint, auth.key.id, settings);
+  if (!keyLimit.allowed) {
+    return {
+      ok: false,
+      response: NextResponse.json({
+        success: false,
+        error: 'Rate limit exceeded'
+      }, { status: 429, headers: rateLimitHeaders([ipLimit, keyLimit], null) })
+    };
+  }
+
+  const quota = await consumeQuota(endpoint, settings);
+  const headers = rateLimitHeaders([ipLimit, keyLimit], quota);
+  if (quota && !quota.allowed) {
+    return {
+      ok: false,
+      response: NextResponse.json({
+        success: false,
+        error: 'Monthly quota exceeded'
+      }, { status: 429, headers })
+    };
+  }
+
+  return { ok: true, key: auth.key, settings, headers, quota };
+}
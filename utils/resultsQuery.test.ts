@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { applyResultsQuery } from '@/utils/resultsQuery';
+
+const items = [{ name: 'b', price: 100 }, { name: 'a', price: 20 }, { name: 'c', price: '5' }];
+
+const query = (params: string) => applyResultsQuery({ items }, undefined, new URLSearchParams(params));
+
+describe('applyResultsQuery without a schema', () => {
+  it('compares numeric values as numbers', () => {
+    expect(query('filter=price>30').data).toEqual({ items: [{ name: 'b', price: 100 }] });
+    expect(query('filter=price<=20').data).toEqual({ items: [{ name: 'a', price: 20 }, { name: 'c', price: '5' }] });
+  });
+
+  it('sorts numeric values as numbers and other values as strings', () => {
+    expect((query('sort=price').data as { items: { name: string }[] }).items.map(item => item.name)).toEqual(['c', 'a', 'b']);
+    expect((query('sort=-name').data as { items: { name: string }[] }).items.map(item => item.name)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('applyResultsQuery fields', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      store: { type: 'string' },
+      products: {
+        type: 'array',
+        items: { type: 'object', properties: { name: { type: 'string' }, price: { type: 'number' } } }
+      }
+    }
+  };
+  const data = { store: 'Acme', products: [{ name: 'a', price: 1 }, { name: 'b', price: 2 }] };
+  const fields = (params: string, withSchema = true) =>
+    applyResultsQuery(data, withSchema ? schema : undefined, new URLSearchParams(params)).data;
+
+  it('steps into arrays along a dotted path', () => {
+    expect(fields('fields=store,products.name')).toEqual({ store: 'Acme', products: [{ name: 'a' }, { name: 'b' }] });
+    expect(fields('fields=products.name', false)).toEqual({ products: [{ name: 'a' }, { name: 'b' }] });
+  });
+
+  it('applies item fields to the collection without a filter, sort or limit', () => {
+    expect(fields('fields=name')).toEqual({ store: 'Acme', products: [{ name: 'a' }, { name: 'b' }] });
+    expect(fields('fields=name', false)).toEqual({ store: 'Acme', products: [{ name: 'a' }, { name: 'b' }] });
+    expect(fields('fields=name&limit=1')).toEqual({ store: 'Acme', products: [{ name: 'a' }] });
+  });
+
+  it('still rejects unknown fields', () => {
+    expect(() => fields('fields=colour')).toThrow('Unknown field "colour"');
+  });
+});
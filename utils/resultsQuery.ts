@@ -0,0 +1,306 @@
+// Field projection, filtering, sorting and pagination over stored endpoint data
+import { hasType, type JsonSchema } from '@/utils/jsonSchema';
+
+export class ResultsQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResultsQueryError';
+  }
+}
+
+type Operator = '=' | '!=' | '<' | '<=' | '>' | '>=' | '~';
+
+interface Filter {
+  path: string[];
+  op: Operator;
+  value: string | number | boolean | null;
+}
+
+interface SortKey {
+  path: string[];
+  descending: boolean;
+}
+
+export interface Pagination {
+  limit: number;
+  total: number;
+  nextCursor: string | null;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 1000;
+const FILTER_PATTERN = /^([A-Za-z0-9_$.-]+?)\s*(<=|>=|!=|==|=|<|>|~)\s*(.*)$/;
+
+// Walk a dotted path through the schema, stepping into array items transparently
+function schemaAt(schema: JsonSchema | undefined, path: string[]): JsonSchema | undefined {
+  let node = schema;
+  for (const segment of path) {
+    while (node && hasType(node, 'array') && node.items) {
+      node = node.items;
+    }
+    if (!node) {
+      return undefined;
+    }
+    if (!node.properties) {
+      // Free-form objects can't be validated any deeper
+      return hasType(node, 'object') || !node.type ? {} : undefined;
+    }
+    node = node.properties[segment];
+  }
+  return node;
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function parsePath(field: string, schema: JsonSchema | undefined) {
+  const path = field.split('.').filter(Boolean);
+  if (path.length === 0) {
+    throw new ResultsQueryError(`Invalid field "${field}"`);
+  }
+  const node = schemaAt(schema, path);
+  if (schema && !node) {
+    throw new ResultsQueryError(`Unknown field "${field}"`);
+  }
+  return { path, node };
+}
+
+function coerceValue(raw: string, node: JsonSchema | undefined, field: string) {
+  if (raw === 'null') {
+    return null;
+  }
+  if (hasType(node, 'number') || hasType(node, 'integer')) {
+    const num = Number(raw);
+    if (raw.trim() === '' || Number.isNaN(num)) {
+      throw new ResultsQueryError(`Filter value for "${field}" must be a number`);
+    }
+    return num;
+  }
+  if (hasType(node, 'boolean')) {
+    if (raw !== 'true' && raw !== 'false') {
+      throw new ResultsQueryError(`Filter value for "${field}" must be true or false`);
+    }
+    return raw === 'true';
+  }
+  return raw;
+}
+
+function parseFilter(expression: string, schema: JsonSchema | undefined): Filter {
+  const match = expression.match(FILTER_PATTERN);
+  if (!match) {
+    throw new ResultsQueryError(`Invalid filter expression "${expression}"`);
+  }
+  const [, field, rawOp, rawValue] = match;
+  const { path, node } = parsePath(field, schema);
+  const op = (rawOp === '==' ? '=' : rawOp) as Operator;
+  const value = op === '~' ? rawValue : coerceValue(rawValue, node, field);
+
+  return { path, op, value };
+}
+
+// Numbers and numeric strings, so "100" sorts after "20" even without a schema to coerce the filter
+function asNumber(value: unknown) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+function compare(a: unknown, b: unknown) {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  const numA = asNumber(a);
+  const numB = asNumber(b);
+  if (numA !== null && numB !== null) return numA - numB;
+  return String(a).localeCompare(String(b));
+}
+
+function matches(item: unknown, filter: Filter) {
+  const actual = getPath(item, filter.path);
+  switch (filter.op) {
+    case '=':
+      return actual === filter.value || (actual != null && String(actual) === String(filter.value));
+    case '!=':
+      return !(actual === filter.value || (actual != null && String(actual) === String(filter.value)));
+    case '~':
+      return actual != null && String(actual).toLowerCase().includes(String(filter.value).toLowerCase());
+    default: {
+      if (actual === undefined || actual === null || filter.value === null) {
+        return false;
+      }
+      const result = compare(actual, filter.value);
+      return filter.op === '<' ? result < 0
+        : filter.op === '<=' ? result <= 0
+        : filter.op === '>' ? result > 0
+        : result >= 0;
+    }
+  }
+}
+
+// Keep only the requested paths, stepping into arrays along the way like schemaAt does, so
+// products.name keeps the name of every product
+function project(value: unknown, paths: string[][]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, paths));
+  }
+  if (value === null || typeof value !== 'object' || paths.some(path => path.length === 0)) {
+    return value;
+  }
+
+  const nested = new Map<string, string[][]>();
+  for (const [segment, ...rest] of paths) {
+    nested.set(segment, [...(nested.get(segment) || []), rest]);
+  }
+  const projected: Record<string, unknown> = {};
+  for (const [segment, rest] of nested) {
+    const child = (value as Record<string, unknown>)[segment];
+    if (child !== undefined) {
+      projected[segment] = project(child, rest);
+    }
+  }
+  return projected;
+}
+
+const encodeCursor = (offset: number) => Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+
+function decodeCursor(cursor: string) {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(o) && o >= 0) {
+      return o as number;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ResultsQueryError('Invalid cursor');
+}
+
+// Find the array the list operations apply to: the root, an explicit ?collection=, or the only array property
+function resolveCollection(data: unknown, schema: JsonSchema | undefined, name: string | null, required: boolean) {
+  if (Array.isArray(data)) {
+    return { key: null, items: data, itemSchema: hasType(schema, 'array') ? schema?.items : schema };
+  }
+
+  let key = name;
+  if (!key && required && data && typeof data === 'object') {
+    const candidates = Object.entries(schema?.properties || {})
+      .filter(([, node]) => hasType(node, 'array'))
+      .map(([prop]) => prop);
+    const arrays = candidates.length > 0
+      ? candidates
+      : Object.keys(data).filter(prop => Array.isArray((data as Record<string, unknown>)[prop]));
+    if (arrays.length !== 1) {
+      throw new ResultsQueryError(
+        arrays.length === 0
+          ? 'Filtering, sorting and pagination require array data'
+          : `Multiple arrays found, choose one with ?collection= (${arrays.join(', ')})`
+      );
+    }
+    key = arrays[0];
+  }
+
+  if (!key) {
+    return null;
+  }
+
+  if (schema?.properties && !schema.properties[key]) {
+    throw new ResultsQueryError(`Unknown collection "${key}"`);
+  }
+  const items = data && typeof data === 'object' ? (data as Record<string, unknown>)[key] : undefined;
+  if (!Array.isArray(items)) {
+    throw new ResultsQueryError(`Collection "${key}" is not an array`);
+  }
+
+  return { key, items, itemSchema: schema?.properties?.[key]?.items };
+}
+
+function fieldsAtRoot(data: unknown, schema: JsonSchema | undefined, fields: string[]) {
+  const paths = fields.map(field => field.split('.').filter(Boolean));
+  if (schema) {
+    return paths.every(path => path.length > 0 && schemaAt(schema, path) !== undefined);
+  }
+  return !!data && typeof data === 'object' && !Array.isArray(data)
+    && paths.every(path => path.length > 0 && path[0] in (data as Record<string, unknown>));
+}
+
+export function applyResultsQuery(data: unknown, schema: JsonSchema | undefined, params: URLSearchParams) {
+  const fields = params.get('fields');
+  const filters = params.getAll('filter').filter(Boolean);
+  const sort = params.get('sort');
+  const limitParam = params.get('limit');
+  const cursor = params.get('cursor');
+  const listRequested = filters.length > 0 || !!sort || !!limitParam || !!cursor;
+
+  if (!fields && !listRequested && !params.get('collection')) {
+    return { data };
+  }
+
+  const fieldList = fields ? fields.split(',').map(f => f.trim()).filter(Boolean) : [];
+  // ?fields= alone applies to the whole value when every field is found there, and otherwise to the
+  // items of the collection, the same as when it is combined with a filter, sort or limit
+  const fieldsNeedCollection = !listRequested && fieldList.length > 0 && !fieldsAtRoot(data, schema, fieldList);
+  const collection = resolveCollection(data, schema, params.get('collection'), listRequested || fieldsNeedCollection);
+  const targetSchema = collection ? collection.itemSchema : schema;
+  const projection = fields ? fieldList.map(f => parsePath(f, targetSchema).path) : null;
+
+  if (!collection) {
+    return { data: projection ? project(data, projection) : data };
+  }
+
+  let items = [...collection.items];
+
+  for (const filter of filters.map(f => parseFilter(f, targetSchema))) {
+    items = items.filter(item => matches(item, filter));
+  }
+
+  if (sort) {
+    const keys: SortKey[] = sort.split(',').map(s => s.trim()).filter(Boolean).map(s => ({
+      path: parsePath(s.replace(/^[-+]/, ''), targetSchema).path,
+      descending: s.startsWith('-')
+    }));
+    items.sort((a, b) => {
+      for (const key of keys) {
+        const result = compare(getPath(a, key.path), getPath(b, key.path));
+        if (result !== 0) {
+          return key.descending ? -result : result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  let pagination: Pagination | undefined;
+  if (limitParam || cursor) {
+    const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ResultsQueryError(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+    const offset = cursor ? decodeCursor(cursor) : 0;
+    const total = items.length;
+    items = items.slice(offset, offset + limit);
+    pagination = {
+      limit,
+      total,
+      nextCursor: offset + limit < total ? encodeCursor(offset + limit) : null
+    };
+  }
+
+  if (projection) {
+    items = items.map(item => project(item, projection));
+  }
+
+  const result = collection.key
+    ? { ...(data as Record<string, unknown>), [collection.key]: items }
+    : items;
+
+  return { data: result, pagination };
+}
@@ -0,0 +1,24 @@
+import { Client } from '@upstash/workflow';
+
+export type JobRunner = 'local' | 'workflow';
+
+// Runs one named, retryable unit of work. Locally this just calls the function; under
+// Upstash Workflow each step is its own invocation, so no single request runs the whole job.
+export type StepRunner = <T>(name: string, fn: () => Promise<T>) => Promise<T>;
+
+export const runInline: StepRunner = (_name, fn) => fn();
+
+export const jobRunner = (): JobRunner => {
+  const configured = process.env.JOB_RUNNER;
+  if (configured === 'local' || configured === 'workflow') {
+    return configured;
+  }
+  return process.env.QSTASH_TOKEN ? 'workflow' : 'local';
+};
+
+// QStash calls the workflow route back, so it must be reachable at API_ROUTE
+export async function triggerWorkflow(path: string, body: unknown) {
+  const apiRoute = process.env.API_ROUTE || 'http://localhost:3000';
+  const client = new Client({ token: process.env.QSTASH_TOKEN || '' });
+  await client.trigger({ url: `${apiRoute}${path}`, body });
+}
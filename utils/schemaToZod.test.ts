@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { jsonSchemaToZod } from '@/utils/schemaToZod';
+
+const accepts = (schema: JsonSchema, value: unknown) => jsonSchemaToZod(schema).safeParse(value).success;
+
+const object = (properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema => ({
+  type: 'object',
+  properties,
+  required
+});
+
+describe('jsonSchemaToZod', () => {
+  it('requires properties at the root', () => {
+    expect(() => jsonSchemaToZod({ type: 'object' })).toThrow('Invalid schema: missing properties');
+  });
+
+  it('converts nested objects and arrays', () => {
+    const schema = object({
+      store: object({ name: { type: 'string' } }),
+      items: { type: 'array', items: object({ price: { type: 'number' } }), minItems: 1 }
+    });
+
+    expect(accepts(schema, { store: { name: 'A' }, items: [{ price: 1 }] })).toBe(true);
+    expect(accepts(schema, { store: { name: 1 }, items: [{ price: 1 }] })).toBe(false);
+    expect(accepts(schema, { store: { name: 'A' }, items: [{ price: '1' }] })).toBe(false);
+    expect(accepts(schema, { store: { name: 'A' }, items: [] })).toBe(false);
+  });
+
+  it('lets fields that are not required be missing or null', () => {
+    const schema = object({ name: { type: 'string' }, note: { type: 'string' } }, ['name']);
+
+    expect(accepts(schema, { name: 'A' })).toBe(true);
+    expect(accepts(schema, { name: 'A', note: null })).toBe(true);
+    expect(accepts(schema, { note: 'x' })).toBe(false);
+    expect(accepts(schema, { name: null })).toBe(false);
+  });
+
+  it('restricts values to enum and const', () => {
+    const schema = object({ currency: { enum: ['USD', 'EUR'] }, kind: { const: 'price' } });
+
+    expect(accepts(schema, { currency: 'EUR', kind: 'price' })).toBe(true);
+    expect(accepts(schema, { currency: 'GBP', kind: 'price' })).toBe(false);
+    expect(accepts(schema, { currency: 'USD', kind: 'other' })).toBe(false);
+  });
+
+  it('checks string formats', () => {
+    const field = (format: string) => object({ value: { type: 'string', format } });
+
+    expect(accepts(field('email'), { value: 'a@example.com' })).toBe(true);
+    expect(accepts(field('email'), { value: 'not an email' })).toBe(false);
+    expect(accepts(field('uri'), { value: 'https://example.com' })).toBe(true);
+    expect(accepts(field('uri'), { value: 'example' })).toBe(false);
+    expect(accepts(field('date'), { value: '2024-05-01' })).toBe(true);
+    expect(accepts(field('date'), { value: 'May 1' })).toBe(false);
+    expect(accepts(field('date-time'), { value: '2024-05-01T10:00:00+02:00' })).toBe(true);
+    expect(accepts(field('date-time'), { value: '2024-05-01' })).toBe(false);
+  });
+
+  it('applies numeric and length bounds', () => {
+    const schema = object({
+      rating: { type: 'integer', minimum: 1, maximum: 5 },
+      discount: { type: 'number', exclusiveMinimum: 0 },
+      code: { type: 'string', minLength: 2, maxLength: 3, pattern: '^[A-Z]+$' }
+    });
+    const valid = { rating: 5, discount: 0.5, code: 'AB' };
+
+    expect(accepts(schema, valid)).toBe(true);
+    expect(accepts(schema, { ...valid, rating: 6 })).toBe(false);
+    expect(accepts(schema, { ...valid, rating: 2.5 })).toBe(false);
+    expect(accepts(schema, { ...valid, discount: 0 })).toBe(false);
+    expect(accepts(schema, { ...valid, code: 'A' })).toBe(false);
+    expect(accepts(schema, { ...valid, code: 'ab' })).toBe(false);
+  });
+
+  it('accepts draft 4 exclusive bounds', () => {
+    const schema = object({ value: { type: 'number', minimum: 0, exclusiveMinimum: true, maximum: 1, exclusiveMaximum: true } });
+
+    expect(accepts(schema, { value: 0.5 })).toBe(true);
+    expect(accepts(schema, { value: 0 })).toBe(false);
+    expect(accepts(schema, { value: 1 })).toBe(false);
+  });
+
+  it('resolves local $refs', () => {
+    const schema: JsonSchema = {
+      ...object({ home: { $ref: '#/definitions/address' }, work: { $ref: '#/definitions/address' } }),
+      definitions: { address: object({ city: { type: 'string' } }) }
+    };
+
+    expect(accepts(schema, { home: { city: 'A' }, work: { city: 'B' } })).toBe(true);
+    expect(accepts(schema, { home: { city: 'A' }, work: {} })).toBe(false);
+  });
+
+  it('resolves recursive $refs', () => {
+    const schema: JsonSchema = {
+      ...object({ root: { $ref: '#/$defs/node' } }),
+      $defs: {
+        node: object({ name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/node' } } }, ['name'])
+      }
+    };
+
+    expect(accepts(schema, { root: { name: 'a', children: [{ name: 'b', children: [{ name: 'c' }] }] } })).toBe(true);
+    expect(accepts(schema, { root: { name: 'a', children: [{ name: 'b', children: [{}] }] } })).toBe(false);
+  });
+
+  it('supports nullable types and unions', () => {
+    const schema = object({
+      price: { type: ['number', 'null'] },
+      label: { type: 'string', nullable: true },
+      id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+      item: { allOf: [object({ sku: { type: 'string' } }), object({ stock: { type: 'integer' } })] }
+    });
+    const valid = { price: null, label: null, id: 'a', item: { sku: 'x', stock: 1 } };
+
+    expect(accepts(schema, valid)).toBe(true);
+    expect(accepts(schema, { ...valid, price: 2, label: 'x', id: 3 })).toBe(true);
+    expect(accepts(schema, { ...valid, id: 1.5 })).toBe(false);
+    expect(accepts(schema, { ...valid, item: { sku: 'x' } })).toBe(false);
+  });
+});
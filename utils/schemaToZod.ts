@@ -0,0 +1,223 @@
+import { z } from 'zod';
+import { resolveRef, type JsonSchema } from '@/utils/jsonSchema';
+
+export interface SchemaField<T> {
+  key: string;
+  value: T;
+  required: boolean;
+  description?: string;
+}
+
+// How a converted schema is put together. jsonSchemaToZod builds Zod schemas directly and the SDK
+// generator builds TypeScript and Zod source, so both follow the rules in walkSchema.
+export interface SchemaBuilder<T> {
+  // Formats and length and pattern bounds
+  string(schema: JsonSchema): T;
+  // Inclusive and exclusive bounds, in draft 4 and draft 6+ form
+  number(schema: JsonSchema, integer: boolean): T;
+  boolean(): T;
+  null(): T;
+  unknown(): T;
+  literal(value: unknown): T;
+  // Called with at least one option
+  union(options: T[]): T;
+  intersection(parts: T[]): T;
+  array(items: T, schema: JsonSchema): T;
+  // Fields that aren't required also accept null, which extractors report for missing values
+  object(fields: SchemaField<T>[], catchall: T | null): T;
+  record(values: T): T;
+  nullable(value: T): T;
+  describe(value: T, description: string): T;
+  // A local $ref; `build` converts its target. Builders must call it at most once per ref, so
+  // shared definitions are built once and recursive ones terminate.
+  ref(ref: string, build: () => T): T;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const DATE_PATTERN_SOURCE = DATE_PATTERN.source;
+
+function walkObject<T>(schema: JsonSchema, root: JsonSchema, builder: SchemaBuilder<T>): T {
+  const additional = schema.additionalProperties;
+  const catchall = additional && typeof additional === 'object' ? walk(additional, root, builder) : null;
+
+  if (!schema.properties) {
+    return builder.record(catchall ?? builder.unknown());
+  }
+
+  const required = new Set(schema.required || []);
+  return builder.object(
+    Object.entries(schema.properties).map(([key, property]) => ({
+      key,
+      value: walk(property, root, builder),
+      required: required.has(key),
+      description: property.description
+    })),
+    catchall
+  );
+}
+
+const walkArray = <T>(schema: JsonSchema, root: JsonSchema, builder: SchemaBuilder<T>) =>
+  builder.array(schema.items ? walk(schema.items, root, builder) : builder.unknown(), schema);
+
+function walkType<T>(type: string, schema: JsonSchema, root: JsonSchema, builder: SchemaBuilder<T>): T {
+  switch (type) {
+    case 'string':
+      return builder.string(schema);
+    case 'number':
+      return builder.number(schema, false);
+    case 'integer':
+      return builder.number(schema, true);
+    case 'boolean':
+      return builder.boolean();
+    case 'null':
+      return builder.null();
+    case 'array':
+      return walkArray(schema, root, builder);
+    case 'object':
+      return walkObject(schema, root, builder);
+    default:
+      throw new Error(`Unsupported schema type: ${type}`);
+  }
+}
+
+function walkNode<T>(schema: JsonSchema, root: JsonSchema, builder: SchemaBuilder<T>): T {
+  if (schema.$ref) {
+    const ref = schema.$ref;
+    return builder.ref(ref, () => walk(resolveRef(root, ref), root, builder));
+  }
+  if (schema.const !== undefined) {
+    return builder.literal(schema.const);
+  }
+  if (schema.enum) {
+    if (schema.enum.length === 0) {
+      throw new Error('Invalid schema: enum must not be empty');
+    }
+    return builder.union(schema.enum.map(value => builder.literal(value)));
+  }
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants?.length) {
+    return builder.union(variants.map(variant => walk(variant, root, builder)));
+  }
+  if (schema.allOf?.length) {
+    return builder.intersection(schema.allOf.map(part => walk(part, root, builder)));
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.length === 0) {
+    // Infer the type from its keywords when the generator leaves it out
+    if (schema.properties) return walkObject(schema, root, builder);
+    if (schema.items) return walkArray(schema, root, builder);
+    return builder.unknown();
+  }
+
+  const nonNull = types.filter(type => type !== 'null');
+  if (nonNull.length === 0) {
+    return builder.null();
+  }
+  const result = builder.union(nonNull.map(type => walkType(type, schema, root, builder)));
+  return nonNull.length < types.length ? builder.nullable(result) : result;
+}
+
+function walk<T>(schema: JsonSchema, root: JsonSchema, builder: SchemaBuilder<T>): T {
+  let result = walkNode(schema, root, builder);
+  if (schema.nullable) {
+    result = builder.nullable(result);
+  }
+  return schema.description ? builder.describe(result, schema.description) : result;
+}
+
+// Supports nested objects and arrays, required, enum/const, formats, numeric and length bounds,
+// local $refs (resolved against the root schema), nullable types and anyOf/oneOf/allOf.
+export const walkSchema = <T>(schema: JsonSchema, builder: SchemaBuilder<T>) => walk(schema, schema, builder);
+
+function zodBuilder(): SchemaBuilder<z.ZodTypeAny> {
+  // Converted $ref targets, so shared and recursive definitions are only built once
+  const refs = new Map<string, z.ZodTypeAny>();
+
+  return {
+    string(schema) {
+      let result = z.string();
+      switch (schema.format) {
+        case 'email':
+          result = result.email();
+          break;
+        case 'uri':
+        case 'url':
+          result = result.url();
+          break;
+        case 'uuid':
+          result = result.uuid();
+          break;
+        case 'date-time':
+          result = result.datetime({ offset: true });
+          break;
+        case 'date':
+          result = result.regex(DATE_PATTERN, 'Invalid date');
+          break;
+      }
+      if (schema.minLength !== undefined) result = result.min(schema.minLength);
+      if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+      if (schema.pattern) result = result.regex(new RegExp(schema.pattern));
+      return result;
+    },
+    number(schema, integer) {
+      let result = integer ? z.number().int() : z.number();
+      const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+
+      if (typeof exclusiveMinimum === 'number') result = result.gt(exclusiveMinimum);
+      else if (minimum !== undefined) result = exclusiveMinimum === true ? result.gt(minimum) : result.gte(minimum);
+
+      if (typeof exclusiveMaximum === 'number') result = result.lt(exclusiveMaximum);
+      else if (maximum !== undefined) result = exclusiveMaximum === true ? result.lt(maximum) : result.lte(maximum);
+
+      return result;
+    },
+    boolean: () => z.boolean(),
+    null: () => z.null(),
+    unknown: () => z.unknown(),
+    literal: value => (value === null ? z.null() : z.literal(value as z.Primitive)),
+    union: options =>
+      options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]),
+    intersection: parts => parts.reduce((left, right) => z.intersection(left, right)),
+    array(items, schema) {
+      let result = z.array(items);
+      if (schema.minItems !== undefined) result = result.min(schema.minItems);
+      if (schema.maxItems !== undefined) result = result.max(schema.maxItems);
+      return result;
+    },
+    object(fields, catchall) {
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const field of fields) {
+        shape[field.key] = field.required ? field.value : field.value.nullish();
+      }
+      const result = z.object(shape);
+      return catchall ? result.catchall(catchall) : result;
+    },
+    record: values => z.record(values),
+    nullable: value => value.nullable(),
+    describe: (value, description) => value.describe(description),
+    ref(ref, build) {
+      const cached = refs.get(ref);
+      if (cached) {
+        return cached;
+      }
+
+      // Register a lazy placeholder first so self-referencing definitions terminate
+      let resolved: z.ZodTypeAny | undefined;
+      const lazy = z.lazy(() => resolved!);
+      refs.set(ref, lazy);
+      resolved = build();
+      return lazy;
+    }
+  };
+}
+
+// Convert a generated JSON Schema into Zod, both for Firecrawl extraction and validating results
+export function jsonSchemaToZod(schema: JsonSchema) {
+  if (!schema.properties) {
+    throw new Error('Invalid schema: missing properties');
+  }
+  return walkSchema(schema, zodBuilder());
+}
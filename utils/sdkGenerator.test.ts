@@ -0,0 +1,136 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { generateSdk } from '@/utils/sdkGenerator';
+import type { StoredEndpoint } from '@/utils/snapshots';
+
+// Written inside node_modules so the generated client resolves zod like a consumer's would
+const outDir = path.join(process.cwd(), 'node_modules/.cache/sdk-generator-test');
+
+const endpoint = (schema: JsonSchema): StoredEndpoint => ({
+  data: {},
+  metadata: { query: 'test', schema, sources: ['https://example.com'], lastUpdated: new Date().toISOString() }
+});
+
+const schemas: Record<string, JsonSchema> = {
+  '2024-prices': {
+    type: 'object',
+    properties: {
+      price: { type: 'number', minimum: 0 },
+      currency: { enum: ['USD', 'EUR'] }
+    },
+    required: ['price']
+  },
+  categories: {
+    type: 'object',
+    definitions: {
+      category: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          children: { type: 'array', items: { $ref: '#/definitions/category' } }
+        },
+        required: ['name']
+      }
+    },
+    properties: {
+      root: { $ref: '#/definitions/category' },
+      id: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+      item: {
+        allOf: [
+          { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] },
+          { type: 'object', properties: { stock: { type: 'integer' } } }
+        ]
+      }
+    },
+    required: ['root', 'id']
+  },
+  'foo-bar': { type: 'object', properties: { a: { type: 'string' } } },
+  foo_bar: { type: 'object', properties: { b: { type: 'string' } } }
+};
+
+function writeClient() {
+  const source = generateSdk(
+    Object.entries(schemas).map(([name, schema]) => ({ endpoint: name, snapshot: endpoint(schema) })),
+    'https://api.example.com'
+  );
+  fs.mkdirSync(outDir, { recursive: true });
+  const file = path.join(outDir, 'client.ts');
+  fs.writeFileSync(file, source);
+  return { source, file };
+}
+
+function loadClient() {
+  const { source, file } = writeClient();
+  const compiled = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 } });
+  const cjs = file.replace(/\.ts$/, '.cjs');
+  fs.writeFileSync(cjs, compiled.outputText);
+  return createRequire(cjs)(cjs);
+}
+
+// Browsers throw "Illegal invocation" when fetch is called with any other receiver
+function strictFetch(this: unknown) {
+  if (this !== undefined && this !== globalThis) {
+    throw new TypeError('Illegal invocation');
+  }
+  return Promise.resolve(Response.json({ success: true, data: { a: 'x' } }));
+}
+
+describe('generateSdk', () => {
+  it('names types with valid, unique identifiers', () => {
+    const { source } = writeClient();
+    expect(source).toContain('export type Endpoint2024PricesData =');
+    expect(source).toContain('endpoint2024Prices: (options?: QueryOptions) =>');
+    expect(source).toContain('export type FooBarData =');
+    expect(source).toContain('export type FooBar2Data =');
+    expect(source).toContain('export type CategoriesCategory =');
+  });
+
+  it('emits a client that type-checks', () => {
+    const { file } = writeClient();
+    const program = ts.createProgram([file], {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Node10,
+      lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+      skipLibCheck: true
+    });
+    const errors = ts.getPreEmitDiagnostics(program)
+      .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    expect(errors).toEqual([]);
+  });
+
+  it('validates $ref, anyOf and allOf like the server does', () => {
+    const client = loadClient();
+
+    const valid = {
+      root: { name: 'a', children: [{ name: 'b', children: [] }] },
+      id: 7,
+      item: { sku: 'x', stock: 2 }
+    };
+    expect(client.CategoriesDataSchema.safeParse(valid).success).toBe(true);
+    expect(client.CategoriesDataSchema.safeParse({ ...valid, id: 1.5 }).success).toBe(false);
+    expect(client.CategoriesDataSchema.safeParse({ ...valid, root: { name: 'a', children: [{}] } }).success).toBe(false);
+    expect(client.CategoriesDataSchema.safeParse({ ...valid, item: { stock: 1 } }).success).toBe(false);
+    expect(client.Endpoint2024PricesDataSchema.safeParse({ price: -1 }).success).toBe(false);
+    expect(client.Endpoint2024PricesDataSchema.safeParse({ price: 1, currency: 'GBP' }).success).toBe(false);
+  });
+
+  it('calls fetch without binding it to the client', async () => {
+    const { createClient } = loadClient();
+    await expect(createClient({ apiKey: 'key', fetch: strictFetch }).fooBar()).resolves.toMatchObject({ data: { a: 'x' } });
+
+    const original = globalThis.fetch;
+    globalThis.fetch = strictFetch as typeof fetch;
+    try {
+      await expect(createClient({ apiKey: 'key' }).fooBar()).resolves.toMatchObject({ data: { a: 'x' } });
+    } finally {
+      globalThis.fetch = original;
+    }
+  });
+});
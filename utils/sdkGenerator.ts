@@ -0,0 +1,336 @@
+// Generates a typed, fetch-based TypeScript client (with Zod validators) for deployed endpoints
+import { nameAllocator, pascalCase } from '@/utils';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { DATE_PATTERN_SOURCE, walkSchema, type SchemaBuilder } from '@/utils/schemaToZod';
+import type { StoredEndpoint } from '@/utils/snapshots';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// Declared by the client runtime below, so generated types must not reuse them
+const RESERVED = ['ErrorDetail', 'ErrorResponse', 'Pagination', 'FieldProvenance', 'ResultsResponse', 'QueryOptions',
+  'ClientOptions', 'ApiError', 'ValidationError', 'buildQuery', 'request', 'createClient', 'z'];
+
+const propertyKey = (key: string) => (IDENTIFIER.test(key) ? key : JSON.stringify(key));
+
+// Identifiers can't start with a digit, so an endpoint like 2024-prices becomes Endpoint2024Prices
+const typeName = (value: string) => {
+  const name = pascalCase(value);
+  return /^[A-Za-z]/.test(name) ? name : `Endpoint${name}`;
+};
+
+const docComment = (text: string | undefined, indent: string) =>
+  text ? `${indent}/** ${text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ')} */\n` : '';
+
+const indentBlock = (text: string) => text.replace(/\n/g, '\n  ');
+
+const grouped = (type: string) => (/[|&]/.test(type) ? `(${type})` : type);
+
+// $ref targets become named definitions. Both builders for an endpoint share the naming function,
+// so each type and its schema line up; each builder emits a definition once.
+type RefNamer = (ref: string) => string;
+
+function typeScriptBuilder(refName: RefNamer, definitions: string[]): SchemaBuilder<string> {
+  const built = new Set<string>();
+  return {
+    string: () => 'string',
+    number: () => 'number',
+    boolean: () => 'boolean',
+    null: () => 'null',
+    unknown: () => 'unknown',
+    literal: value => JSON.stringify(value),
+    union: options => Array.from(new Set(options)).join(' | '),
+    intersection: parts => parts.map(grouped).join(' & '),
+    array: items => (/[|&]/.test(items) ? `Array<${items}>` : `${items}[]`),
+    object(fields, catchall) {
+      const lines = fields.map(field =>
+        `${docComment(field.description, '  ')}  ${propertyKey(field.key)}${field.required ? '' : '?'}: ${indentBlock(field.required ? field.value : `${field.value} | null`)};`
+      );
+      if (catchall) {
+        lines.push('  [key: string]: unknown;');
+      }
+      return lines.length > 0 ? `{\n${lines.join('\n')}\n}` : '{}';
+    },
+    record: values => `Record<string, ${values}>`,
+    nullable: value => (value.split(' | ').includes('null') ? value : `${value} | null`),
+    describe: value => value,
+    ref(ref, build) {
+      const name = refName(ref);
+      if (!built.has(ref)) {
+        built.add(ref);
+        definitions.push(`export type ${name} = ${build()};`);
+      }
+      return name;
+    }
+  };
+}
+
+function zodSourceBuilder(refName: RefNamer, definitions: string[]): SchemaBuilder<string> {
+  const built = new Set<string>();
+  return {
+    string(schema) {
+      let result = 'z.string()';
+      switch (schema.format) {
+        case 'email':
+          result += '.email()';
+          break;
+        case 'uri':
+        case 'url':
+          result += '.url()';
+          break;
+        case 'uuid':
+          result += '.uuid()';
+          break;
+        case 'date-time':
+          result += '.datetime({ offset: true })';
+          break;
+        case 'date':
+          result += `.regex(/${DATE_PATTERN_SOURCE}/, 'Invalid date')`;
+          break;
+      }
+      if (schema.minLength !== undefined) result += `.min(${schema.minLength})`;
+      if (schema.maxLength !== undefined) result += `.max(${schema.maxLength})`;
+      if (schema.pattern) result += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+      return result;
+    },
+    number(schema, integer) {
+      let result = integer ? 'z.number().int()' : 'z.number()';
+      const { minimum, maximum, exclusiveMinimum, exclusiveMaximum } = schema;
+
+      if (typeof exclusiveMinimum === 'number') result += `.gt(${exclusiveMinimum})`;
+      else if (minimum !== undefined) result += exclusiveMinimum === true ? `.gt(${minimum})` : `.gte(${minimum})`;
+
+      if (typeof exclusiveMaximum === 'number') result += `.lt(${exclusiveMaximum})`;
+      else if (maximum !== undefined) result += exclusiveMaximum === true ? `.lt(${maximum})` : `.lte(${maximum})`;
+
+      return result;
+    },
+    boolean: () => 'z.boolean()',
+    null: () => 'z.null()',
+    unknown: () => 'z.unknown()',
+    literal: value => (value === null ? 'z.null()' : `z.literal(${JSON.stringify(value)})`),
+    union: options => (options.length === 1 ? options[0] : `z.union([${options.join(', ')}])`),
+    intersection: parts => parts.reduce((left, right) => `z.intersection(${left}, ${right})`),
+    array(items, schema) {
+      let result = `z.array(${items})`;
+      if (schema.minItems !== undefined) result += `.min(${schema.minItems})`;
+      if (schema.maxItems !== undefined) result += `.max(${schema.maxItems})`;
+      return result;
+    },
+    object(fields, catchall) {
+      const lines = fields.map(field =>
+        `  ${propertyKey(field.key)}: ${indentBlock(field.value)}${field.required ? '' : '.nullish()'},`
+      );
+      const result = lines.length > 0 ? `z.object({\n${lines.join('\n')}\n})` : 'z.object({})';
+      return catchall ? `${result}.catchall(${catchall})` : result;
+    },
+    record: values => `z.record(${values})`,
+    nullable: value => `${value}.nullable()`,
+    describe: value => value,
+    ref(ref, build) {
+      const name = refName(ref);
+      if (!built.has(ref)) {
+        built.add(ref);
+        // Lazy, so definitions can refer to themselves and to each other in any order
+        definitions.push(`const ${name}Schema: z.ZodType<${name}> = z.lazy(() => ${build()});`);
+      }
+      return `${name}Schema`;
+    }
+  };
+}
+
+export const toTypeScript = (schema: JsonSchema, refName: RefNamer, definitions: string[]) =>
+  walkSchema(schema, typeScriptBuilder(refName, definitions));
+
+export const toZod = (schema: JsonSchema, refName: RefNamer, definitions: string[]) =>
+  walkSchema(schema, zodSourceBuilder(refName, definitions));
+
+const RUNTIME = `export interface ErrorDetail {
+  field: string;
+  message: string;
+}
+
+/** Error envelope returned by /api/results/* on failure */
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: ErrorDetail[];
+}
+
+export interface Pagination {
+  limit: number;
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface FieldProvenance {
+  source: string | null;
+  agreeing: string[];
+  confidence: number;
+  strategy: 'first-non-null' | 'majority' | 'most-recent' | 'llm';
+}
+
+export interface ResultsResponse<T> {
+  success: true;
+  data: T;
+  pagination?: Pagination;
+  lastUpdated?: string;
+  sources?: string[];
+  version?: number;
+  provenance?: Record<string, FieldProvenance> | null;
+  /** Values as extracted before normalization, keyed by JSON pointer */
+  raw?: Record<string, unknown> | null;
+}
+
+export interface QueryOptions {
+  fields?: string[];
+  filter?: string[];
+  sort?: string;
+  limit?: number;
+  cursor?: string;
+  collection?: string;
+  version?: number;
+  at?: string;
+  provenance?: boolean;
+  raw?: boolean;
+}
+
+export interface ClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+  /** Validate full (unprojected) payloads against the generated Zod schemas. Defaults to true. */
+  validate?: boolean;
+}
+
+export class ApiError extends Error {
+  status: number;
+  body: ErrorResponse | null;
+  /** Seconds to wait before retrying, from Retry-After on 429 responses */
+  retryAfter: number | null;
+
+  constructor(status: number, body: ErrorResponse | null, retryAfter: number | null) {
+    super(body?.error || \`Request failed with status \${status}\`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ValidationError extends Error {
+  issues: z.ZodIssue[];
+
+  constructor(issues: z.ZodIssue[]) {
+    super(\`Response failed validation: \${issues.map(i => \`\${i.path.join('.')}: \${i.message}\`).join('; ')}\`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+function buildQuery(options: QueryOptions = {}) {
+  const params = new URLSearchParams();
+  if (options.fields?.length) params.set('fields', options.fields.join(','));
+  options.filter?.forEach(filter => params.append('filter', filter));
+  if (options.sort) params.set('sort', options.sort);
+  if (options.limit !== undefined) params.set('limit', String(options.limit));
+  if (options.cursor) params.set('cursor', options.cursor);
+  if (options.collection) params.set('collection', options.collection);
+  if (options.version !== undefined) params.set('version', String(options.version));
+  if (options.at) params.set('at', options.at);
+  if (options.provenance) params.set('provenance', 'true');
+  if (options.raw) params.set('raw', 'true');
+  const query = params.toString();
+  return query ? \`?\${query}\` : '';
+}
+
+async function request<T>(
+  client: Required<Omit<ClientOptions, 'validate'>> & { validate: boolean },
+  endpoint: string,
+  schema: z.ZodType<T>,
+  options?: QueryOptions
+): Promise<ResultsResponse<T>> {
+  // Called unbound: browsers throw "Illegal invocation" when fetch runs with another \`this\`
+  const fetchResults = client.fetch;
+  const response = await fetchResults(\`\${client.baseUrl}/api/results/\${endpoint}\${buildQuery(options)}\`, {
+    headers: {
+      'Authorization': \`Bearer \${client.apiKey}\`,
+      'Accept': 'application/json'
+    }
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const retryAfter = response.headers.get('Retry-After');
+    throw new ApiError(response.status, body as ErrorResponse | null, retryAfter ? Number(retryAfter) : null);
+  }
+
+  // Projected or paginated responses are partial, so only whole payloads are validated
+  const partial = !!(options?.fields?.length || options?.filter?.length || options?.limit || options?.cursor);
+  if (client.validate && !partial) {
+    const parsed = schema.safeParse(body.data);
+    if (!parsed.success) {
+      throw new ValidationError(parsed.error.issues);
+    }
+  }
+
+  return body as ResultsResponse<T>;
+}
+`;
+
+export function generateSdk(endpoints: { endpoint: string; snapshot: StoredEndpoint }[], baseUrl: string) {
+  // Endpoints such as foo-bar and foo_bar normalize to the same name, so later ones get a suffix
+  const uniqueBase = nameAllocator();
+  const uniqueIdentifier = nameAllocator(RESERVED);
+  const named = endpoints.map(entry => {
+    const base = uniqueBase(typeName(entry.endpoint));
+    return { ...entry, base, type: uniqueIdentifier(`${base}Data`) };
+  });
+
+  const declarations = named.map(({ snapshot, base, type }) => {
+    const schema = snapshot.metadata.schema;
+    const refNames = new Map<string, string>();
+    const refName = (ref: string) => {
+      if (!refNames.has(ref)) {
+        refNames.set(ref, uniqueIdentifier(`${base}${typeName(ref.split('/').pop() || 'Definition')}`));
+      }
+      return refNames.get(ref)!;
+    };
+    const types: string[] = [];
+    const schemas: string[] = [];
+    const dataType = toTypeScript(schema, refName, types);
+    const dataSchema = toZod(schema, refName, schemas);
+
+    return [
+      `${docComment(snapshot.metadata.query, '')}export type ${type} = ${dataType};`,
+      ...types,
+      ...schemas,
+      `export const ${type}Schema: z.ZodType<${type}> = ${dataSchema};`
+    ].join('\n\n');
+  });
+
+  const methods = named.map(({ endpoint, snapshot, base, type }) =>
+    `${docComment(snapshot.metadata.query, '    ')}` +
+    `    ${base.charAt(0).toLowerCase()}${base.slice(1)}: (options?: QueryOptions) =>\n` +
+    `      request<${type}>(config, ${JSON.stringify(endpoint)}, ${type}Schema, options),`
+  );
+
+  return `// Generated by LLM API Engine on ${new Date().toISOString()}. Do not edit.
+import { z } from 'zod';
+
+${RUNTIME}
+${declarations.join('\n\n')}
+
+export function createClient(options: ClientOptions) {
+  const config = {
+    apiKey: options.apiKey,
+    baseUrl: (options.baseUrl || ${JSON.stringify(baseUrl)}).replace(/\\/$/, ''),
+    fetch: options.fetch ?? ((...args: Parameters<typeof fetch>) => fetch(...args)),
+    validate: options.validate ?? true
+  };
+
+  return {
+${methods.join('\n')}
+  };
+}
+`;
+}
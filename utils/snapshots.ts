@@ -0,0 +1,167 @@
+import { redis } from '@/utils/redis';
+import { getEndpointSettings } from '@/utils/endpointSettings';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import type { ExtractionRun } from '@/utils/extraction';
+import type { ValidationReport } from '@/utils/validation';
+import type { FieldProvenance } from '@/utils/merge';
+import { diffData, summarizeDiff } from '@/utils/diff';
+import { queueWebhooks } from '@/utils/webhooks';
+
+export interface EndpointMetadata {
+  query: string;
+  schema: JsonSchema;
+  sources: string[];
+  lastUpdated: string;
+  version?: number;
+  // Per-source outcome of the extraction that produced this snapshot
+  extraction?: ExtractionRun;
+  // Schema validation outcome for this snapshot's data
+  validation?: ValidationReport;
+  // Which source each top-level field came from, and how confident the merge was
+  provenance?: Record<string, FieldProvenance>;
+  // Values as extracted before x-normalize rules with keepRaw rewrote them, keyed by JSON pointer
+  raw?: Record<string, unknown>;
+}
+
+// The shape stored at api/results/<endpoint> and in each history entry
+export interface StoredEndpoint {
+  data: Record<string, unknown>;
+  metadata: EndpointMetadata;
+}
+
+export interface SnapshotSummary {
+  version: number;
+  createdAt: string;
+  sources: string[];
+}
+
+export const resultsKey = (endpoint: string) => `api/results/${endpoint}`;
+const historyKey = (endpoint: string) => `api/history/${endpoint}`;
+const versionKey = (endpoint: string) => `api/version/${endpoint}`;
+
+const parse = (value: unknown) =>
+  (typeof value === 'string' ? JSON.parse(value) : value) as StoredEndpoint;
+
+export async function listEndpoints() {
+  const keys = await redis.keys(resultsKey('*'));
+  return keys.map(key => key.replace(resultsKey(''), '')).sort();
+}
+
+export async function getCurrentSnapshot(endpoint: string) {
+  const stored = await redis.get(resultsKey(endpoint));
+  return stored ? parse(stored) : null;
+}
+
+export async function getCurrentVersion(endpoint: string) {
+  return (await redis.get<number>(versionKey(endpoint))) || 0;
+}
+
+// Snapshots published after the given version, oldest first
+export async function getSnapshotsSince(endpoint: string, version: number) {
+  const history = await getHistory(endpoint);
+  return history.filter(snapshot => (snapshot.metadata.version ?? 0) > version).reverse();
+}
+
+// Bumps the version, writes the snapshot as current and pushes it onto the history in one step, so
+// concurrent publishes can't interleave. The stored JSON is ARGV[1] .. version .. ARGV[2].
+const PUBLISH_SCRIPT = `
+local version = redis.call('INCR', KEYS[1])
+local stored = ARGV[1] .. version .. ARGV[2]
+redis.call('SET', KEYS[2], stored)
+redis.call('LPUSH', KEYS[3], stored)
+redis.call('LTRIM', KEYS[3], 0, ARGV[3])
+return version
+`;
+
+// Write the new current snapshot and append it to the endpoint's history, newest first.
+// Subscribers are notified in the background when the data differs from the previous snapshot;
+// the snapshot is published even if that fails.
+export async function publishSnapshot(endpoint: string, snapshot: StoredEndpoint) {
+  const settings = await getEndpointSettings(endpoint);
+  const previous = await getCurrentSnapshot(endpoint);
+  // metadata is serialized last, so the version goes just before the closing braces
+  const json = JSON.stringify({ data: snapshot.data, metadata: { ...snapshot.metadata, version: undefined } });
+  const version = await redis.eval<string[], number>(
+    PUBLISH_SCRIPT,
+    [versionKey(endpoint), resultsKey(endpoint), historyKey(endpoint)],
+    [`${json.slice(0, -2)},"version":`, '}}', String(settings.history.retention - 1)]
+  );
+  const stored: StoredEndpoint = {
+    data: snapshot.data,
+    metadata: { ...snapshot.metadata, version }
+  };
+
+  if (previous) {
+    const operations = diffData(previous.data, stored.data);
+    if (operations.length > 0) {
+      await queueWebhooks(endpoint, {
+        event: 'endpoint.updated',
+        endpoint,
+        version,
+        previousVersion: previous.metadata.version,
+        lastUpdated: stored.metadata.lastUpdated,
+        data: stored.data,
+        changes: { summary: summarizeDiff(operations), operations }
+      }).catch(error => console.error('Failed to queue webhooks:', error));
+    }
+  }
+
+  return stored;
+}
+
+export async function getHistory(endpoint: string) {
+  const entries = await redis.lrange(historyKey(endpoint), 0, -1);
+  return entries.map(parse);
+}
+
+export const summarizeSnapshot = (snapshot: StoredEndpoint): SnapshotSummary => ({
+  version: snapshot.metadata.version ?? 0,
+  createdAt: snapshot.metadata.lastUpdated,
+  sources: snapshot.metadata.sources
+});
+
+export async function listVersions(endpoint: string) {
+  const history = await getHistory(endpoint);
+  return history.map(summarizeSnapshot);
+}
+
+export async function getSnapshotByVersion(endpoint: string, version: number) {
+  const history = await getHistory(endpoint);
+  return history.find(snapshot => snapshot.metadata.version === version) || null;
+}
+
+// The snapshot that was current at the given time
+export async function getSnapshotAt(endpoint: string, at: Date) {
+  const history = await getHistory(endpoint);
+  return history.find(snapshot => Date.parse(snapshot.metadata.lastUpdated) <= at.getTime()) || null;
+}
+
+// Diff two stored versions; defaults to the latest snapshot against the one before it
+export async function compareSnapshots(endpoint: string, from?: number, to?: number) {
+  const history = await getHistory(endpoint);
+  const target = to === undefined
+    ? history[0]
+    : history.find(snapshot => snapshot.metadata.version === to);
+  if (!target) {
+    return null;
+  }
+
+  const base = from === undefined
+    ? history.find(snapshot => (snapshot.metadata.version ?? 0) < (target.metadata.version ?? 0))
+    : history.find(snapshot => snapshot.metadata.version === from);
+  if (!base) {
+    return null;
+  }
+
+  const operations = diffData(base.data, target.data);
+  return {
+    from: summarizeSnapshot(base),
+    to: summarizeSnapshot(target),
+    summary: summarizeDiff(operations),
+    operations
+  };
+}
+
+export async function deleteSnapshots(endpoint: string) {
+  await redis.del(resultsKey(endpoint), historyKey(endpoint), versionKey(endpoint));
+}
@@ -0,0 +1,111 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { GET } from '@/app/api/routes/[endpoint]/route';
+import { redis } from '@/utils/redis';
+import {
+  openSourceAuth,
+  saveSourceAuth,
+  sealSourceAuth,
+  SourceAuthError,
+  sourceAuthSchema,
+  sourceRequestHeaders
+} from '@/utils/sourceAuth';
+
+const auth = sourceAuthSchema.parse({
+  'example.com': {
+    headers: { 'X-Api-Key': 'parent-key', 'X-Region': 'eu' },
+    cookies: { session: 'parent-session', theme: 'dark' },
+    basicAuth: { username: 'parent', password: 'parent-password' }
+  },
+  'shop.example.com': {
+    headers: { 'x-api-key': 'shop-key' },
+    cookies: { session: 'shop-session' }
+  }
+});
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+  process.env.SOURCE_SECRETS_KEY = 'test-secret';
+  process.env.ADMIN_API_KEY = 'admin-token';
+});
+
+afterAll(() => {
+  delete process.env.SOURCE_SECRETS_KEY;
+  delete process.env.ADMIN_API_KEY;
+});
+
+describe('sealSourceAuth', () => {
+  it('round-trips through AES-GCM without exposing the values', () => {
+    const sealed = sealSourceAuth(auth);
+
+    expect(sealed).toMatch(/^v1\./);
+    expect(sealed).not.toContain('parent-key');
+    expect(openSourceAuth(sealed)).toEqual(auth);
+    expect(sealSourceAuth(auth)).not.toBe(sealed);
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = sealSourceAuth(auth).split('.');
+    const bytes = Buffer.from(ciphertext, 'base64url');
+    bytes[0] ^= 1;
+
+    expect(() => openSourceAuth([version, iv, tag, bytes.toString('base64url')].join('.'))).toThrow(SourceAuthError);
+  });
+
+  it('cannot be opened with a different key', () => {
+    const sealed = sealSourceAuth(auth);
+    process.env.SOURCE_SECRETS_KEY = 'other-secret';
+
+    expect(() => openSourceAuth(sealed)).toThrow('could not be decrypted');
+  });
+});
+
+describe('sourceRequestHeaders', () => {
+  it('lets a subdomain override its parent domain', () => {
+    const headers = sourceRequestHeaders('https://shop.example.com/products', sealSourceAuth(auth));
+
+    expect(headers).toEqual({
+      'x-api-key': 'shop-key',
+      'X-Region': 'eu',
+      'Cookie': 'session=shop-session; theme=dark',
+      'Authorization': `Basic ${Buffer.from('parent:parent-password').toString('base64')}`
+    });
+  });
+
+  it('only sends credentials to matching hosts', () => {
+    const sealed = sealSourceAuth(auth);
+
+    expect(sourceRequestHeaders('https://example.com/', sealed)).toMatchObject({ 'X-Api-Key': 'parent-key' });
+    expect(sourceRequestHeaders('https://notexample.com/', sealed)).toEqual({});
+    expect(sourceRequestHeaders('https://example.com.evil.test/', sealed)).toEqual({});
+  });
+});
+
+describe('GET /api/routes/[endpoint]', () => {
+  it('lists credential names without their values', async () => {
+    await redis.set('api/results/prices', JSON.stringify({
+      data: {},
+      metadata: { query: 'prices', schema: { type: 'object', properties: {} }, sources: ['https://shop.example.com'], lastUpdated: new Date().toISOString() }
+    }));
+    await saveSourceAuth('prices', auth);
+
+    const response = await GET(
+      new Request('https://app.test/api/routes/prices', { headers: { Authorization: 'Bearer admin-token' } }),
+      { params: { endpoint: 'prices' } }
+    );
+    const body = await response.json();
+    const text = JSON.stringify(body);
+
+    expect(response.status).toBe(200);
+    expect(body.sourceAuth).toEqual([
+      { domain: 'example.com', headers: ['X-Api-Key', 'X-Region'], cookies: ['session', 'theme'], basicAuth: true },
+      { domain: 'shop.example.com', headers: ['x-api-key'], cookies: ['session'], basicAuth: false }
+    ]);
+    for (const secret of ['parent-key', 'shop-key', 'parent-session', 'shop-session', 'parent-password', 'v1.']) {
+      expect(text).not.toContain(secret);
+    }
+  });
+});
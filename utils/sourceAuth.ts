@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+
+// Credentials are kept AES-256-GCM encrypted everywhere outside the fetch itself: in Redis,
+// in job records and in workflow step results. Requests carry the sealed string.
+const ALGORITHM = 'aes-256-gcm';
+const SEALED_VERSION = 'v1';
+
+const sourceAuthKey = (endpoint: string) => `api/source-auth/${endpoint}`;
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const noLineBreaks = (value: string) => !/[\r\n]/.test(value);
+
+export const domainAuthSchema = z.object({
+  headers: z.record(
+    z.string().regex(HEADER_NAME, 'Invalid header name'),
+    z.string().refine(noLineBreaks, 'Header values cannot contain line breaks')
+  ).default({}),
+  cookies: z.record(
+    z.string().regex(/^[^\s=;,]+$/, 'Invalid cookie name'),
+    z.string().refine(value => !/[;\r\n]/.test(value), 'Cookie values cannot contain ";" or line breaks')
+  ).default({}),
+  basicAuth: z.object({
+    username: z.string().min(1).refine(value => !value.includes(':'), 'Usernames cannot contain ":"'),
+    password: z.string()
+  }).nullable().default(null)
+});
+
+// Keyed by hostname; an entry also applies to the host's subdomains
+export const sourceAuthSchema = z.record(
+  z.string().toLowerCase().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)*$/, 'Domains must be hostnames like example.com'),
+  domainAuthSchema
+);
+
+export type DomainAuth = z.infer<typeof domainAuthSchema>;
+export type SourceAuth = z.infer<typeof sourceAuthSchema>;
+
+// What admins see: which domains have credentials and the names, never the values
+export interface SourceAuthSummary {
+  domain: string;
+  headers: string[];
+  cookies: string[];
+  basicAuth: boolean;
+}
+
+interface StoredSourceAuth {
+  sealed: string;
+  summary: SourceAuthSummary[];
+  updatedAt: string;
+}
+
+export class SourceAuthError extends Error {
+  status = 500;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceAuthError';
+  }
+}
+
+function encryptionKey() {
+  const secret = process.env.SOURCE_SECRETS_KEY;
+  if (!secret) {
+    throw new SourceAuthError('SOURCE_SECRETS_KEY must be configured to use source credentials');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+// Throws the same error sealing would, for callers that need to fail before doing other work
+export const checkSourceAuthKey = () => {
+  encryptionKey();
+};
+
+export function sealSourceAuth(auth: SourceAuth) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(auth), 'utf8'), cipher.final()]);
+  return [SEALED_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join('.');
+}
+
+export function openSourceAuth(sealed: string): SourceAuth {
+  const [version, iv, tag, ciphertext] = sealed.split('.');
+  if (version !== SEALED_VERSION || !iv || !tag || !ciphertext) {
+    throw new SourceAuthError('Unrecognized source credentials format');
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]);
+    return sourceAuthSchema.parse(JSON.parse(plaintext.toString('utf8')));
+  } catch (error) {
+    if (error instanceof SourceAuthError) throw error;
+    throw new SourceAuthError('Source credentials could not be decrypted; was SOURCE_SECRETS_KEY changed?');
+  }
+}
+
+export const summarizeSourceAuth = (auth: SourceAuth): SourceAuthSummary[] =>
+  Object.entries(auth).map(([domain, entry]) => ({
+    domain,
+    headers: Object.keys(entry.headers),
+    cookies: Object.keys(entry.cookies),
+    basicAuth: !!entry.basicAuth
+  }));
+
+// Replace an endpoint's credentials; null or an empty object removes them
+export async function saveSourceAuth(endpoint: string, auth: SourceAuth | null) {
+  if (!auth || Object.keys(auth).length === 0) {
+    await deleteSourceAuth(endpoint);
+    return [];
+  }
+
+  const summary = summarizeSourceAuth(auth);
+  const stored: StoredSourceAuth = { sealed: sealSourceAuth(auth), summary, updatedAt: new Date().toISOString() };
+  await redis.set(sourceAuthKey(endpoint), stored);
+  return summary;
+}
+
+// The endpoint's credentials, still encrypted, for attaching to extraction requests
+export async function getSealedSourceAuth(endpoint: string) {
+  const stored = await redis.get<StoredSourceAuth>(sourceAuthKey(endpoint));
+  return stored?.sealed ?? null;
+}
+
+export async function getSourceAuthSummary(endpoint: string) {
+  const stored = await redis.get<StoredSourceAuth>(sourceAuthKey(endpoint));
+  return stored?.summary ?? [];
+}
+
+export async function deleteSourceAuth(endpoint: string) {
+  await redis.del(sourceAuthKey(endpoint));
+}
+
+const appliesTo = (hostname: string, domain: string) => hostname === domain || hostname.endsWith(`.${domain}`);
+
+// Header names are case-insensitive, so any existing spelling is replaced
+function setHeader(headers: Record<string, string>, name: string, value: string) {
+  Object.keys(headers)
+    .filter(existing => existing.toLowerCase() === name.toLowerCase())
+    .forEach(existing => delete headers[existing]);
+  headers[name] = value;
+}
+
+// Request headers for one URL. Entries for parent domains apply first, so a subdomain's own
+// entry wins where both set the same header or cookie.
+export function sourceRequestHeaders(url: string, sealed: string | null | undefined) {
+  if (!sealed) {
+    return {};
+  }
+
+  const hostname = new URL(url).hostname.toLowerCase();
+  const matching = Object.entries(openSourceAuth(sealed))
+    .filter(([domain]) => appliesTo(hostname, domain))
+    .sort(([a], [b]) => a.length - b.length)
+    .map(([, entry]) => entry);
+  if (matching.length === 0) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {};
+  const cookies: Record<string, string> = {};
+  let basicAuth: DomainAuth['basicAuth'] = null;
+
+  for (const entry of matching) {
+    for (const [name, value] of Object.entries(entry.headers)) {
+      setHeader(headers, name, value);
+    }
+    Object.assign(cookies, entry.cookies);
+    basicAuth = entry.basicAuth ?? basicAuth;
+  }
+
+  if (Object.keys(cookies).length > 0) {
+    setHeader(headers, 'Cookie', Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join('; '));
+  }
+  if (basicAuth) {
+    setHeader(headers, 'Authorization', `Basic ${Buffer.from(`${basicAuth.username}:${basicAuth.password}`).toString('base64')}`);
+  }
+  return headers;
+}
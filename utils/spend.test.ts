@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+// Rescrapes are only queued here; running them would need a provider
+vi.mock('@/utils/jobs', () => ({
+  createJob: vi.fn(async (input: unknown) => ({ id: 'job_1', input })),
+  dispatchJob: vi.fn(async () => undefined)
+}));
+
+import { POST } from '@/app/api/routes/route';
+import { redis } from '@/utils/redis';
+import { updateEndpointSettings } from '@/utils/endpointSettings';
+import { createJob } from '@/utils/jobs';
+import { estimateCost, getMonthSpend, modelPrice, recordModelUsage } from '@/utils/spend';
+
+beforeEach(() => {
+  (redis as unknown as FakeRedis).reset();
+  vi.mocked(createJob).mockClear();
+});
+
+afterEach(() => {
+  delete process.env.MODEL_PRICES;
+});
+
+describe('modelPrice', () => {
+  it('prices dated snapshots by their longest matching prefix', () => {
+    expect(modelPrice('gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(modelPrice('gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(modelPrice('GPT-4.1-mini')).toEqual({ input: 0.4, output: 1.6 });
+    expect(modelPrice('llama3')).toBeNull();
+  });
+
+  it('applies MODEL_PRICES overrides and additions', () => {
+    process.env.MODEL_PRICES = JSON.stringify({ 'gpt-4o': { input: 5, output: 15 }, llama3: { input: 0, output: 0.5 } });
+
+    expect(modelPrice('gpt-4o-2024-08-06')).toEqual({ input: 5, output: 15 });
+    expect(modelPrice('gpt-4o-mini')).toEqual({ input: 0.15, output: 0.6 });
+    expect(estimateCost('llama3:8b', 1000, 2_000_000)).toBe(1);
+  });
+
+  it('ignores invalid MODEL_PRICES', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    process.env.MODEL_PRICES = JSON.stringify({ llama3: { input: -1 } });
+
+    expect(modelPrice('llama3')).toBeNull();
+    expect(modelPrice('gpt-4o')).toEqual({ input: 2.5, output: 10 });
+    error.mockRestore();
+  });
+});
+
+describe('recordModelUsage', () => {
+  it('adds priced and unpriced calls to the month', async () => {
+    await recordModelUsage({ model: 'gpt-4o-2024-08-06', usage: { prompt_tokens: 1_000_000, completion_tokens: 100_000 } }, { model: 'gpt-4o', operation: 'extract', endpoint: 'prices' });
+    await recordModelUsage({ usage: { prompt_tokens: 10, completion_tokens: 10 } }, { model: 'llama3', operation: 'repair', endpoint: 'prices' });
+
+    expect(await getMonthSpend('prices')).toMatchObject({ calls: 2, promptTokens: 1_000_010, costUsd: 3.5, unpricedCalls: 1 });
+    expect((await getMonthSpend(null)).calls).toBe(0);
+  });
+});
+
+describe('scheduled rescrapes', () => {
+  const rescrape = (trigger: string) => POST(new Request('https://app.test/api/routes', {
+    method: 'POST',
+    body: JSON.stringify({ endpoint: 'prices', trigger })
+  }));
+
+  beforeEach(async () => {
+    await redis.set('api/results/prices', JSON.stringify({
+      data: {},
+      metadata: { query: 'prices', schema: { type: 'object', properties: {} }, sources: ['https://example.com'], lastUpdated: new Date().toISOString(), version: 1 }
+    }));
+    await updateEndpointSettings('prices', { budget: { monthlyUsd: 1 } });
+  });
+
+  it('are paused once the month reaches the budget', async () => {
+    await recordModelUsage({ model: 'gpt-4o', usage: { prompt_tokens: 400_000, completion_tokens: 0 } }, { model: 'gpt-4o', operation: 'extract', endpoint: 'prices' });
+
+    const response = await rescrape('schedule');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, skipped: true, budget: { monthlyUsd: 1, spentUsd: 1, exceeded: true } });
+    expect(createJob).not.toHaveBeenCalled();
+  });
+
+  it('still run under the budget, and manual rescrapes always run', async () => {
+    expect((await rescrape('schedule')).status).toBe(202);
+
+    await recordModelUsage({ model: 'gpt-4o', usage: { prompt_tokens: 1_000_000, completion_tokens: 0 } }, { model: 'gpt-4o', operation: 'extract', endpoint: 'prices' });
+    expect((await rescrape('manual')).status).toBe(202);
+    expect(vi.mocked(createJob).mock.calls.map(([input]) => input)).toEqual([
+      expect.objectContaining({ type: 'rescrape', trigger: 'schedule' }),
+      expect.objectContaining({ type: 'rescrape', trigger: 'manual' })
+    ]);
+  });
+});
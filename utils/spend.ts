@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+import type { EndpointSettings } from '@/utils/endpointSettings';
+
+// What each model call was made for
+export type ModelOperation = 'schema' | 'extract' | 'pagination' | 'merge' | 'repair';
+
+// The parts of a chat completion that usage is read from
+interface CompletionUsage {
+  model?: string;
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+export interface SpendBucket {
+  bucket: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // Calls to models missing from the price table, counted at no cost
+  unpricedCalls: number;
+}
+
+export interface BudgetStatus {
+  monthlyUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+type Granularity = 'day' | 'month';
+
+// USD per million tokens
+const modelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0)
+});
+
+type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+// List prices at the time of writing; override or extend them with MODEL_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+// Costs are stored as integer micro-dollars so counters can use HINCRBY
+const MICROS_PER_USD = 1_000_000;
+const RECENT_CALLS = 100;
+
+const RETENTION_SECONDS: Record<Granularity, number> = {
+  day: 60 * 60 * 24 * 100,
+  month: 60 * 60 * 24 * 400
+};
+
+export const MAX_SPEND_DAYS = 90;
+
+// Calls made outside any endpoint, such as schema generation in the builder
+const scopeKey = (endpoint: string | null | undefined) => (endpoint ? `api/spend/endpoints/${endpoint}` : 'api/spend/unattributed');
+
+const countersKey = (endpoint: string | null | undefined, granularity: Granularity, bucket: string) =>
+  `${scopeKey(endpoint)}/${granularity}/${bucket}`;
+
+const recentKey = (endpoint: string | null | undefined) => `${scopeKey(endpoint)}/recent`;
+
+// Every key written for a scope, so an endpoint's spend can be deleted without scanning
+const indexKey = (endpoint: string | null | undefined) => `${scopeKey(endpoint)}/keys`;
+
+const bucketId = (granularity: Granularity, date: Date) =>
+  granularity === 'day' ? date.toISOString().slice(0, 10) : date.toISOString().slice(0, 7);
+
+// The default table with MODEL_PRICES applied, e.g. {"my-model": {"input": 1, "output": 2}}
+export function modelPrices(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) {
+    return DEFAULT_PRICES;
+  }
+  try {
+    return { ...DEFAULT_PRICES, ...z.record(modelPriceSchema).parse(JSON.parse(process.env.MODEL_PRICES)) };
+  } catch (error) {
+    console.error('Ignoring invalid MODEL_PRICES:', error);
+    return DEFAULT_PRICES;
+  }
+}
+
+// Providers report dated snapshots like gpt-4o-mini-2024-07-18, so the longest matching prefix wins
+export function modelPrice(model: string) {
+  const name = model.toLowerCase();
+  const match = Object.entries(modelPrices())
+    .filter(([prefix]) => name.startsWith(prefix.toLowerCase()))
+    .sort(([a], [b]) => b.length - a.length)[0];
+  return match ? match[1] : null;
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number) {
+  const price = modelPrice(model);
+  if (!price) {
+    return null;
+  }
+  return (promptTokens * price.input + completionTokens * price.output) / MICROS_PER_USD;
+}
+
+const toUsd = (micros: number) => Number((micros / MICROS_PER_USD).toFixed(6));
+
+// Firecrawl bills in credits and doesn't report tokens, so each extraction is priced per call
+const firecrawlCallPrice = () => {
+  const configured = Number(process.env.FIRECRAWL_CALL_USD);
+  return process.env.FIRECRAWL_CALL_USD && Number.isFinite(configured) && configured >= 0 ? configured : null;
+};
+
+interface UsageEntry {
+  model: string;
+  operation: ModelOperation;
+  endpoint?: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  // Null when the call can't be priced
+  cost: number | null;
+}
+
+// Accounting must never fail the call it describes, so errors are only logged
+async function recordUsage({ model, operation, endpoint, promptTokens, completionTokens, cost }: UsageEntry) {
+  try {
+    const costMicros = Math.round((cost ?? 0) * MICROS_PER_USD);
+    const now = new Date();
+    const pipeline = redis.pipeline();
+    const written: string[] = [];
+
+    for (const granularity of ['day', 'month'] as const) {
+      const counters = countersKey(endpoint, granularity, bucketId(granularity, now));
+      pipeline.hincrby(counters, 'calls', 1);
+      pipeline.hincrby(counters, 'promptTokens', promptTokens);
+      pipeline.hincrby(counters, 'completionTokens', completionTokens);
+      pipeline.hincrby(counters, 'costMicros', costMicros);
+      if (cost === null) {
+        pipeline.hincrby(counters, 'unpricedCalls', 1);
+      }
+      pipeline.hincrby(counters, `operation:${operation}`, costMicros);
+      pipeline.hincrby(counters, `model:${model}`, costMicros);
+      pipeline.expire(counters, RETENTION_SECONDS[granularity]);
+      written.push(counters);
+    }
+
+    pipeline.lpush(recentKey(endpoint), JSON.stringify({
+      at: now.toISOString(),
+      operation,
+      model,
+      promptTokens,
+      completionTokens,
+      costUsd: cost === null ? null : toUsd(costMicros)
+    }));
+    pipeline.ltrim(recentKey(endpoint), 0, RECENT_CALLS - 1);
+    pipeline.expire(recentKey(endpoint), RETENTION_SECONDS.day);
+    written.push(recentKey(endpoint));
+
+    pipeline.sadd(indexKey(endpoint), ...(written as [string, ...string[]]));
+    pipeline.expire(indexKey(endpoint), RETENTION_SECONDS.month);
+
+    await pipeline.exec();
+  } catch (error) {
+    console.error('Failed to record model usage:', error);
+  }
+}
+
+// Record one model call's tokens and estimated cost against an endpoint
+export function recordModelUsage(
+  completion: CompletionUsage,
+  context: { model: string; operation: ModelOperation; endpoint?: string | null }
+) {
+  const model = completion.model || context.model;
+  const promptTokens = completion.usage?.prompt_tokens ?? 0;
+  const completionTokens = completion.usage?.completion_tokens ?? 0;
+  return recordUsage({
+    model,
+    operation: context.operation,
+    endpoint: context.endpoint,
+    promptTokens,
+    completionTokens,
+    cost: estimateCost(model, promptTokens, completionTokens)
+  });
+}
+
+// Record one Firecrawl extraction, priced with FIRECRAWL_CALL_USD or counted as unpriced without it
+export const recordFirecrawlUsage = (endpoint?: string | null) =>
+  recordUsage({ model: 'firecrawl', operation: 'extract', endpoint, promptTokens: 0, completionTokens: 0, cost: firecrawlCallPrice() });
+
+const toBucket = (bucket: string, counters: Record<string, number | string> | null): SpendBucket => ({
+  bucket,
+  calls: Number(counters?.calls || 0),
+  promptTokens: Number(counters?.promptTokens || 0),
+  completionTokens: Number(counters?.completionTokens || 0),
+  costUsd: toUsd(Number(counters?.costMicros || 0)),
+  unpricedCalls: Number(counters?.unpricedCalls || 0)
+});
+
+export async function getMonthSpend(endpoint: string | null, now = new Date()) {
+  const bucket = bucketId('month', now);
+  return toBucket(bucket, await redis.hgetall<Record<string, number | string>>(countersKey(endpoint, 'month', bucket)));
+}
+
+// Daily spend for the last `days` days (oldest first), this month's total and where it went
+export async function getSpend(endpoint: string | null, days = 30) {
+  const now = Date.now();
+  const buckets = Array.from({ length: days }, (_, i) => bucketId('day', new Date(now - (days - 1 - i) * 24 * 60 * 60 * 1000)));
+  const month = bucketId('month', new Date(now));
+
+  const pipeline = redis.pipeline();
+  for (const bucket of buckets) {
+    pipeline.hgetall(countersKey(endpoint, 'day', bucket));
+  }
+  pipeline.hgetall(countersKey(endpoint, 'month', month));
+  pipeline.lrange(recentKey(endpoint), 0, -1);
+  const results = await pipeline.exec<unknown[]>();
+
+  const monthCounters = (results[buckets.length] || {}) as Record<string, number | string>;
+  const breakdown: { operation: Record<string, number>; model: Record<string, number> } = { operation: {}, model: {} };
+  for (const [field, value] of Object.entries(monthCounters)) {
+    const separator = field.indexOf(':');
+    const group = field.slice(0, separator);
+    if (separator > 0 && (group === 'operation' || group === 'model')) {
+      breakdown[group][field.slice(separator + 1)] = toUsd(Number(value));
+    }
+  }
+
+  const daily = buckets.map((bucket, i) => toBucket(bucket, results[i] as Record<string, number | string> | null));
+  const recent = ((results[buckets.length + 1] || []) as unknown[])
+    .map(entry => (typeof entry === 'string' ? JSON.parse(entry) : entry));
+
+  return {
+    daily,
+    totals: {
+      calls: daily.reduce((sum, b) => sum + b.calls, 0),
+      promptTokens: daily.reduce((sum, b) => sum + b.promptTokens, 0),
+      completionTokens: daily.reduce((sum, b) => sum + b.completionTokens, 0),
+      costUsd: toUsd(daily.reduce((sum, b) => sum + Math.round(b.costUsd * MICROS_PER_USD), 0))
+    },
+    month: toBucket(month, monthCounters),
+    breakdown,
+    recent
+  };
+}
+
+export async function getBudgetStatus(endpoint: string, settings: EndpointSettings): Promise<BudgetStatus> {
+  const { costUsd } = await getMonthSpend(endpoint);
+  const monthlyUsd = settings.budget?.monthlyUsd ?? null;
+  return {
+    monthlyUsd,
+    spentUsd: costUsd,
+    remainingUsd: monthlyUsd === null ? null : Number(Math.max(0, monthlyUsd - costUsd).toFixed(6)),
+    exceeded: monthlyUsd !== null && costUsd >= monthlyUsd
+  };
+}
+
+// Spend only counts priced calls, so say so when some of this month's calls weren't priced
+export const unpricedWarning = (month: SpendBucket) =>
+  month.unpricedCalls > 0
+    ? `${month.unpricedCalls} call${month.unpricedCalls === 1 ? '' : 's'} this month had no price and are not included in the cost or budget; set FIRECRAWL_CALL_USD or MODEL_PRICES to price them`
+    : null;
+
+export const budgetExceededMessage = (status: BudgetStatus) =>
+  `Monthly budget of $${status.monthlyUsd?.toFixed(2)} reached ($${status.spentUsd.toFixed(2)} spent); scheduled rescrapes are paused until next month`;
+
+export async function deleteSpend(endpoint: string) {
+  const keys = await redis.smembers(indexKey(endpoint));
+  await redis.del(...keys, indexKey(endpoint));
+}
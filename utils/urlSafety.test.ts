@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { assertPublicUrl, isPrivateAddress, UnsafeUrlError } from '@/utils/urlSafety';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+    '100.64.0.1', '0.0.0.0', '224.0.0.1', '::', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1',
+    '::ffff:7f00:1', '64:ff9b::a9fe:a9fe'
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '93.184.216.34', '2606:4700:4700::1111', '::ffff:8.8.8.8'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  afterEach(() => {
+    delete process.env.ALLOW_PRIVATE_SOURCES;
+  });
+
+  it.each(['http://127.0.0.1/', 'http://[::1]:8080/', 'http://169.254.169.254/latest/meta-data/', 'http://localhost/', 'file:///etc/passwd'])(
+    'rejects %s',
+    async url => {
+      await expect(assertPublicUrl(url)).rejects.toBeInstanceOf(UnsafeUrlError);
+    }
+  );
+
+  it('accepts public addresses', async () => {
+    await expect(assertPublicUrl('https://93.184.216.34/page')).resolves.toBeUndefined();
+  });
+
+  it('can be lifted for local development', async () => {
+    process.env.ALLOW_PRIVATE_SOURCES = 'true';
+    await expect(assertPublicUrl('http://127.0.0.1/')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+export class UnsafeUrlError extends Error {
+  url: string;
+
+  constructor(url: string, reason: string) {
+    super(`Refusing to fetch ${url}: ${reason}`);
+    this.name = 'UnsafeUrlError';
+    this.url = url;
+  }
+}
+
+// Loopback, private, link-local (including cloud metadata), shared, benchmarking, multicast and reserved ranges
+const BLOCKED_V4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3]
+];
+
+const v4ToInt = (address: string) => address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const inV4Range = (address: string, [base, bits]: [string, number]) =>
+  Math.floor(v4ToInt(address) / 2 ** (32 - bits)) === Math.floor(v4ToInt(base) / 2 ** (32 - bits));
+
+// The eight 16-bit groups of an IPv6 address, with any embedded IPv4 tail converted
+function v6Groups(address: string) {
+  let text = address.toLowerCase().split('%')[0];
+  const v4Tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Tail) {
+    const value = v4ToInt(v4Tail[1]);
+    text = text.slice(0, -v4Tail[1].length) + `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail === undefined ? [] : tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  return [...headGroups, ...Array(tail === undefined ? 0 : missing).fill('0'), ...tailGroups].map(group => parseInt(group, 16));
+}
+
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return BLOCKED_V4.some(range => inV4Range(address, range));
+  }
+  if (!net.isIPv6(address)) {
+    return true;
+  }
+
+  const groups = v6Groups(address);
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 host
+  const embedsV4 = (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff)
+    || (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0));
+  if (embedsV4) {
+    return isPrivateAddress([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.'));
+  }
+  return groups.every(group => group === 0) // ::
+    || (groups.slice(0, 7).every(group => group === 0) && groups[7] === 1) // ::1
+    || (groups[0] & 0xfe00) === 0xfc00 // fc00::/7 unique local
+    || (groups[0] & 0xffc0) === 0xfe80 // fe80::/10 link-local
+    || (groups[0] & 0xff00) === 0xff00; // ff00::/8 multicast
+}
+
+// Sources are fetched from the server, so without this a caller could reach internal services or cloud
+// metadata. Every address the host resolves to must be public. ALLOW_PRIVATE_SOURCES=true lifts the check
+// for local development against sites on your own network; other callers pass their own opt-out.
+export async function assertPublicUrl(url: string, allowPrivate = process.env.ALLOW_PRIVATE_SOURCES === 'true') {
+  const parsed = new URL(url);
+  if (!/^https?:$/.test(parsed.protocol)) {
+    throw new UnsafeUrlError(url, `unsupported protocol ${parsed.protocol}`);
+  }
+  if (allowPrivate) {
+    return;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      throw new UnsafeUrlError(url, `could not resolve ${hostname}`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(url, 'the host resolves to a private, loopback or link-local address');
+  }
+}
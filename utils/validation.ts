@@ -0,0 +1,197 @@
+import { z } from 'zod';
+import { redis } from '@/utils/redis';
+import type { JsonSchema } from '@/utils/jsonSchema';
+import { jsonSchemaToZod } from '@/utils/schemaToZod';
+import { normalizeData } from '@/utils/normalize';
+import { createModelClient, extractionModel, parseModelJson } from '@/utils/providers/llm';
+import { recordModelUsage } from '@/utils/spend';
+import { publishSnapshot, resultsKey, type StoredEndpoint } from '@/utils/snapshots';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  // valid: passed as extracted; repaired: passed after the repair pass; rejected: not published
+  status: 'valid' | 'repaired' | 'rejected';
+  checkedAt: string;
+  // Issues in the data as extracted
+  issues: ValidationIssue[];
+  // Issues still present after repair, only set when rejected
+  remainingIssues: ValidationIssue[];
+  repairAttempted: boolean;
+  repairError?: string;
+  // Pointers of values rewritten by x-normalize rules before validation
+  normalized?: string[];
+  // Version published with this report, if any
+  version?: number;
+}
+
+export class SnapshotValidationError extends Error {
+  status = 422;
+  report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    super('Extracted data does not match the endpoint schema');
+    this.name = 'SnapshotValidationError';
+    this.report = report;
+  }
+}
+
+// The schema itself can't be turned into a validator, e.g. it has no root properties
+export class InvalidSchemaError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(`Invalid schema: ${message.replace(/^Invalid schema: /, '')}`);
+    this.name = 'InvalidSchemaError';
+  }
+}
+
+const MAX_REPAIR_ISSUES = 50;
+
+const reportKey = (endpoint: string) => `api/validation/${endpoint}`;
+
+const toIssues = (error: z.ZodError): ValidationIssue[] =>
+  error.issues.map(issue => ({ path: '/' + issue.path.join('/'), message: issue.message }));
+
+function schemaValidator(schema: JsonSchema) {
+  try {
+    return jsonSchemaToZod(schema);
+  } catch (error) {
+    throw new InvalidSchemaError(error instanceof Error ? error.message : 'unsupported schema');
+  }
+}
+
+export function validateData(data: unknown, schema: JsonSchema) {
+  const result = schemaValidator(schema).safeParse(data);
+  return result.success
+    ? { success: true as const, data: result.data, issues: [] as ValidationIssue[] }
+    : { success: false as const, issues: toIssues(result.error) };
+}
+
+// Ask the model to correct only what the validator flagged
+async function repairData(data: unknown, schema: JsonSchema, query: string, issues: ValidationIssue[], endpoint?: string | null) {
+  const openai = createModelClient();
+  const completion = await openai.chat.completions.create({
+    model: extractionModel(),
+    messages: [
+      {
+        role: 'system',
+        content: `You repair JSON data so it conforms to a JSON Schema.
+          Follow these rules:
+          1. Fix only the reported validation errors and keep every other value unchanged
+          2. Convert values to the required types and formats where the intent is clear, e.g. "$1,200" to 1200
+          3. Never invent data; use null for optional values you cannot recover
+          4. Respond with the corrected JSON object only
+
+          JSON Schema:
+          ${JSON.stringify(schema)}`
+      },
+      {
+        role: 'user',
+        content: `Task the data was extracted for: ${query}\n\nValidation errors:\n${issues
+          .slice(0, MAX_REPAIR_ISSUES)
+          .map(issue => `- ${issue.path}: ${issue.message}`)
+          .join('\n')}\n\nData:\n${JSON.stringify(data)}`
+      }
+    ],
+    response_format: { type: 'json_object' },
+    temperature: 0
+  });
+  await recordModelUsage(completion, { model: extractionModel(), operation: 'repair', endpoint });
+
+  const content = completion.choices[0]?.message?.content;
+  if (!content) {
+    throw new Error('Model returned an empty response');
+  }
+  return parseModelJson(content);
+}
+
+// Normalize and validate extracted data, attempting one repair pass when it doesn't conform.
+// Repaired output is normalized again, since the model may answer with display strings too.
+// Repair spend is recorded against `endpoint` when given. Previews pass `repair: false`, since
+// publishing validates the data again and would pay for a second repair.
+export async function validateAndRepair(
+  data: unknown,
+  schema: JsonSchema,
+  query: string,
+  endpoint?: string | null,
+  { repair = true }: { repair?: boolean } = {}
+) {
+  const checkedAt = new Date().toISOString();
+  const { data: normalizedData, raw, normalized } = normalizeData(data, schema);
+  const initial = validateData(normalizedData, schema);
+  if (initial.success) {
+    const report: ValidationReport = {
+      status: 'valid',
+      checkedAt,
+      issues: [],
+      remainingIssues: [],
+      repairAttempted: false,
+      ...(normalized.length > 0 && { normalized })
+    };
+    return { data: initial.data, raw, report };
+  }
+
+  const report: ValidationReport = {
+    status: 'rejected',
+    checkedAt,
+    issues: initial.issues,
+    remainingIssues: initial.issues,
+    repairAttempted: repair,
+    ...(normalized.length > 0 && { normalized })
+  };
+  if (!repair) {
+    return { data: null, raw, report };
+  }
+
+  try {
+    const repairedData = normalizeData(await repairData(normalizedData, schema, query, initial.issues, endpoint), schema).data;
+    const repaired = validateData(repairedData, schema);
+    if (repaired.success) {
+      return { data: repaired.data, raw, report: { ...report, status: 'repaired' as const, remainingIssues: [] } };
+    }
+    report.remainingIssues = repaired.issues;
+  } catch (error) {
+    report.repairError = error instanceof Error ? error.message : 'Repair failed';
+  }
+
+  return { data: null, raw, report };
+}
+
+export async function getValidationReport(endpoint: string) {
+  return redis.get<ValidationReport>(reportKey(endpoint));
+}
+
+export async function deleteValidationReport(endpoint: string) {
+  await redis.del(reportKey(endpoint));
+}
+
+// Publish only data that conforms to the endpoint schema. When validation and repair both fail the
+// previous snapshot stays current and the rejected run's report is kept for the UI and API.
+export async function publishValidatedSnapshot(endpoint: string, snapshot: StoredEndpoint) {
+  const { data, raw, report } = await validateAndRepair(snapshot.data, snapshot.metadata.schema, snapshot.metadata.query, endpoint);
+  // Raw values from an earlier pass (e.g. the builder's preview) are kept unless normalized again here
+  const rawValues = { ...snapshot.metadata.raw, ...raw };
+
+  if (report.status === 'rejected') {
+    // New endpoints have nothing to fall back to, so there is no route to attach the report to
+    if (await redis.exists(resultsKey(endpoint))) {
+      await redis.set(reportKey(endpoint), report);
+    }
+    throw new SnapshotValidationError(report);
+  }
+
+  const stored = await publishSnapshot(endpoint, {
+    data,
+    metadata: {
+      ...snapshot.metadata,
+      validation: report,
+      ...(Object.keys(rawValues).length > 0 && { raw: rawValues })
+    }
+  });
+  await redis.set(reportKey(endpoint), { ...report, version: stored.metadata.version });
+  return stored;
+}
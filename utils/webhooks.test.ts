@@ -0,0 +1,212 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeRedis } from '@/test/fakeRedis';
+
+vi.mock('@/utils/redis', async () => ({ redis: (await import('@/test/fakeRedis')).createFakeRedis() }));
+
+import { redis } from '@/utils/redis';
+import { updateEndpointSettings } from '@/utils/endpointSettings';
+import { getCurrentSnapshot, getHistory, publishSnapshot } from '@/utils/snapshots';
+import { UnsafeUrlError } from '@/utils/urlSafety';
+import {
+  createWebhook,
+  deliverWebhook,
+  listDeliveries,
+  queueWebhooks,
+  signPayload,
+  type WebhookPayload
+} from '@/utils/webhooks';
+
+const fakeRedis = redis as unknown as FakeRedis;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local receiver that answers each request with the next queued status, then 200
+let received: ReceivedRequest[] = [];
+let statuses: number[] = [];
+let delayMs = 0;
+let receiverUrl = '';
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    received.push({ headers: req.headers, body });
+    setTimeout(() => {
+      res.statusCode = statuses.shift() ?? 200;
+      if (res.statusCode >= 300 && res.statusCode < 400) {
+        res.setHeader('Location', receiverUrl);
+      }
+      res.end();
+    }, delayMs);
+  });
+});
+
+const payload: WebhookPayload = {
+  event: 'endpoint.updated',
+  endpoint: 'prices',
+  version: 2,
+  previousVersion: 1,
+  data: { price: 20 },
+  changes: null
+};
+
+const waitFor = async (check: () => Promise<boolean>, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  fakeRedis.reset();
+  received = [];
+  statuses = [];
+  delayMs = 0;
+  delete process.env.JOB_RUNNER;
+  delete process.env.QSTASH_TOKEN;
+  // The receiver listens on loopback
+  process.env.ALLOW_PRIVATE_WEBHOOKS = 'true';
+});
+
+describe('deliverWebhook', () => {
+  it('signs the body with the subscription secret', async () => {
+    const webhook = await createWebhook('prices', receiverUrl);
+    const delivery = await deliverWebhook('prices', webhook, payload);
+
+    expect(delivery.success).toBe(true);
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(headers['x-webhook-event']).toBe('endpoint.updated');
+    expect(headers['x-webhook-id']).toBe(delivery.id);
+
+    const [, timestamp, signature] = String(headers['x-webhook-signature']).match(/^t=(\d+),v1=([0-9a-f]+)$/) || [];
+    expect(signature).toBe(signPayload(webhook.secret, Number(timestamp), body));
+  });
+
+  it('retries server errors and logs every attempt', async () => {
+    statuses = [503];
+    const webhook = await createWebhook('prices', receiverUrl);
+    const delivery = await deliverWebhook('prices', webhook, payload);
+
+    expect(delivery.success).toBe(true);
+    expect(delivery.attempts.map(attempt => attempt.status)).toEqual([503, 200]);
+    expect(received).toHaveLength(2);
+    expect((await listDeliveries('prices'))[0]).toMatchObject({ id: delivery.id, success: true });
+  });
+
+  it('does not retry client errors', async () => {
+    statuses = [400];
+    const webhook = await createWebhook('prices', receiverUrl);
+    const delivery = await deliverWebhook('prices', webhook, payload);
+
+    expect(delivery.success).toBe(false);
+    expect(delivery.attempts).toHaveLength(1);
+    expect(received).toHaveLength(1);
+  });
+
+  it('treats redirects as failures without following them', async () => {
+    statuses = [302];
+    const webhook = await createWebhook('prices', receiverUrl);
+    const delivery = await deliverWebhook('prices', webhook, payload);
+
+    expect(delivery.success).toBe(false);
+    expect(delivery.attempts).toEqual([expect.objectContaining({ status: 302, error: 'Redirects are not followed' })]);
+    expect(received).toHaveLength(1);
+  });
+
+  it('refuses private receivers at registration and delivery', async () => {
+    const webhook = await createWebhook('prices', receiverUrl);
+    delete process.env.ALLOW_PRIVATE_WEBHOOKS;
+
+    await expect(createWebhook('prices', receiverUrl)).rejects.toThrow(UnsafeUrlError);
+    const delivery = await deliverWebhook('prices', webhook, payload);
+    expect(delivery.success).toBe(false);
+    expect(delivery.attempts).toHaveLength(1);
+    expect(received).toHaveLength(0);
+  });
+
+  it('stops after maxAttempts', async () => {
+    statuses = [503];
+    const webhook = await createWebhook('prices', receiverUrl);
+    const delivery = await deliverWebhook('prices', webhook, payload, { maxAttempts: 1 });
+
+    expect(delivery.success).toBe(false);
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('queueWebhooks', () => {
+  it('returns before the receiver answers and delivers in the background', async () => {
+    delayMs = 500;
+    await createWebhook('prices', receiverUrl);
+
+    const started = Date.now();
+    const id = await queueWebhooks('prices', payload);
+    expect(id).toMatch(/^whq_/);
+    expect(Date.now() - started).toBeLessThan(delayMs);
+
+    await waitFor(async () => (await listDeliveries('prices')).length === 1);
+    expect((await listDeliveries('prices'))[0]).toMatchObject({ success: true, event: 'endpoint.updated' });
+    expect(await redis.exists(`api/webhook-queue/${id}`)).toBe(0);
+  });
+
+  it('queues nothing without subscribers', async () => {
+    expect(await queueWebhooks('prices', payload)).toBeNull();
+  });
+});
+
+describe('publishSnapshot', () => {
+  const snapshot = (price: number) => ({
+    data: { price },
+    metadata: { query: 'price', schema: { type: 'object', properties: {} }, sources: ['https://example.com'], lastUpdated: new Date().toISOString() }
+  });
+
+  it('stores each version as current and keeps the newest in history', async () => {
+    await updateEndpointSettings('prices', { history: { retention: 2 } });
+    for (const price of [10, 20, 30]) await publishSnapshot('prices', snapshot(price));
+
+    expect(await getCurrentSnapshot('prices')).toMatchObject({ data: { price: 30 }, metadata: { version: 3, query: 'price' } });
+    expect((await getHistory('prices')).map(entry => [entry.metadata.version, entry.data.price])).toEqual([[3, 30], [2, 20]]);
+  });
+
+  it('notifies subscribers when the data changes', async () => {
+    await createWebhook('prices', receiverUrl);
+    await publishSnapshot('prices', snapshot(10));
+    await publishSnapshot('prices', snapshot(20));
+
+    await waitFor(async () => received.length === 1);
+    expect(JSON.parse(received[0].body)).toMatchObject({ event: 'endpoint.updated', version: 2, previousVersion: 1, data: { price: 20 } });
+  });
+
+  it('still publishes when webhooks cannot be queued', async () => {
+    await createWebhook('prices', receiverUrl);
+    await publishSnapshot('prices', snapshot(10));
+
+    const set = fakeRedis.set;
+    vi.spyOn(fakeRedis, 'set').mockImplementation(async (key, value, options) => {
+      if (key.startsWith('api/webhook-queue/')) throw new Error('Redis unavailable');
+      return set(key, value, options);
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const stored = await publishSnapshot('prices', snapshot(20));
+    expect(stored.metadata.version).toBe(2);
+    expect(received).toHaveLength(0);
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { redis } from '@/utils/redis';
+import { jobRunner, runInline, triggerWorkflow, type StepRunner } from '@/utils/runner';
+import type { DiffOperation, DiffSummary } from '@/utils/diff';
+import { assertPublicUrl, UnsafeUrlError } from '@/utils/urlSafety';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  createdAt: string;
+}
+
+export type PublicWebhook = Omit<WebhookSubscription, 'secret'>;
+
+export type WebhookEvent = 'endpoint.updated' | 'webhook.test';
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  endpoint: string;
+  version?: number;
+  previousVersion?: number;
+  lastUpdated?: string;
+  data: unknown;
+  changes: {
+    summary: DiffSummary;
+    operations: DiffOperation[];
+  } | null;
+}
+
+export interface DeliveryAttempt {
+  attempt: number;
+  at: string;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEvent;
+  success: boolean;
+  attempts: DeliveryAttempt[];
+  createdAt: string;
+}
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const TIMEOUT_MS = 10000;
+const DELIVERY_LOG_SIZE = 100;
+// Queued events outlive the longest delivery, including every retry
+const QUEUE_TTL_SECONDS = 60 * 60 * 24;
+
+const webhooksKey = (endpoint: string) => `api/webhooks/${endpoint}`;
+const deliveriesKey = (endpoint: string) => `api/webhook-deliveries/${endpoint}`;
+const queueKey = (id: string) => `api/webhook-queue/${id}`;
+
+interface QueuedEvent {
+  endpoint: string;
+  payload: WebhookPayload;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const toPublicWebhook = ({ secret, ...webhook }: WebhookSubscription): PublicWebhook => webhook;
+
+// Receivers are called from the server like sources are, so they must be public hosts too.
+// ALLOW_PRIVATE_WEBHOOKS=true allows receivers on your own network during development.
+const assertPublicReceiver = (url: string) => assertPublicUrl(url, process.env.ALLOW_PRIVATE_WEBHOOKS === 'true');
+
+export async function listWebhooks(endpoint: string) {
+  return (await redis.get<WebhookSubscription[]>(webhooksKey(endpoint))) || [];
+}
+
+export async function createWebhook(endpoint: string, url: string) {
+  await assertPublicReceiver(url);
+  const webhook: WebhookSubscription = {
+    id: crypto.randomBytes(6).toString('hex'),
+    url,
+    secret: `whsec_${crypto.randomBytes(24).toString('hex')}`,
+    createdAt: new Date().toISOString()
+  };
+  const webhooks = await listWebhooks(endpoint);
+  await redis.set(webhooksKey(endpoint), [...webhooks, webhook]);
+  return webhook;
+}
+
+export async function deleteWebhook(endpoint: string, id: string) {
+  const webhooks = await listWebhooks(endpoint);
+  const remaining = webhooks.filter(webhook => webhook.id !== id);
+  if (remaining.length === webhooks.length) {
+    return false;
+  }
+  await redis.set(webhooksKey(endpoint), remaining);
+  return true;
+}
+
+export async function deleteAllWebhooks(endpoint: string) {
+  await redis.del(webhooksKey(endpoint), deliveriesKey(endpoint));
+}
+
+export async function listDeliveries(endpoint: string, limit = 20) {
+  return redis.lrange<WebhookDelivery>(deliveriesKey(endpoint), 0, limit - 1);
+}
+
+// Signature over "<timestamp>.<body>" so receivers can reject replays
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+export async function deliverWebhook(
+  endpoint: string,
+  webhook: WebhookSubscription,
+  payload: WebhookPayload,
+  { maxAttempts = MAX_ATTEMPTS }: { maxAttempts?: number } = {}
+) {
+  const body = JSON.stringify(payload);
+  const delivery: WebhookDelivery = {
+    id: crypto.randomBytes(8).toString('hex'),
+    webhookId: webhook.id,
+    url: webhook.url,
+    event: payload.event,
+    success: false,
+    attempts: [],
+    createdAt: new Date().toISOString()
+  };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const started = Date.now();
+    const timestamp = Math.floor(started / 1000);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    let retry = true;
+
+    try {
+      // Checked on every attempt, since the host may resolve elsewhere than when it was registered
+      await assertPublicReceiver(webhook.url);
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'llm-api-engine-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': payload.event,
+          'X-Webhook-Signature': `t=${timestamp},v1=${signPayload(webhook.secret, timestamp, body)}`
+        },
+        body,
+        // A redirect could point at an internal host, so it counts as a failed delivery
+        redirect: 'manual',
+        signal: controller.signal
+      });
+      const redirected = response.status >= 300 && response.status < 400;
+
+      delivery.attempts.push({
+        attempt,
+        at: new Date(started).toISOString(),
+        status: response.status,
+        ...(redirected ? { error: 'Redirects are not followed' } : {}),
+        durationMs: Date.now() - started
+      });
+
+      if (response.ok) {
+        delivery.success = true;
+        break;
+      }
+      retry = isRetryable(response.status);
+    } catch (error) {
+      delivery.attempts.push({
+        attempt,
+        at: new Date(started).toISOString(),
+        error: error instanceof Error ? error.message : 'Delivery failed',
+        durationMs: Date.now() - started
+      });
+      retry = !(error instanceof UnsafeUrlError);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!retry || attempt === maxAttempts) {
+      break;
+    }
+    await sleep(Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS));
+  }
+
+  await redis.lpush(deliveriesKey(endpoint), JSON.stringify(delivery));
+  await redis.ltrim(deliveriesKey(endpoint), 0, DELIVERY_LOG_SIZE - 1);
+
+  return delivery;
+}
+
+// Deliver a queued event to every subscriber; each delivery is its own step under the workflow runner
+export async function deliverQueuedWebhooks(id: string, step: StepRunner = runInline) {
+  const queued = await step('load', async () => {
+    const stored = await redis.get(queueKey(id));
+    return stored ? ((typeof stored === 'string' ? JSON.parse(stored) : stored) as QueuedEvent) : null;
+  });
+  if (!queued) {
+    return [];
+  }
+
+  const webhooks = await step('subscribers', () => listWebhooks(queued.endpoint));
+  const deliveries = await Promise.all(
+    webhooks.map(webhook => step(`deliver-${webhook.id}`, () => deliverWebhook(queued.endpoint, webhook, queued.payload)))
+  );
+  await step('done', () => redis.del(queueKey(id)));
+  return deliveries;
+}
+
+// Queue an event for delivery outside the request that published it, so a slow or unreachable
+// receiver never holds up a deploy, rescrape or job. Returns the queue id, or null without subscribers.
+export async function queueWebhooks(endpoint: string, payload: WebhookPayload) {
+  const webhooks = await listWebhooks(endpoint);
+  if (webhooks.length === 0) {
+    return null;
+  }
+
+  const id = `whq_${crypto.randomBytes(8).toString('hex')}`;
+  const queued: QueuedEvent = { endpoint, payload };
+  await redis.set(queueKey(id), JSON.stringify(queued), { ex: QUEUE_TTL_SECONDS });
+
+  if (jobRunner() === 'workflow') {
+    await triggerWorkflow('/api/webhooks/workflow', { queueId: id });
+  } else {
+    deliverQueuedWebhooks(id).catch(error => console.error('Webhook delivery failed:', error));
+  }
+  return id;
+}
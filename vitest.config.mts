@@ -0,0 +1,12 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.dirname(fileURLToPath(import.meta.url)) }
+  },
+  test: {
+    environment: 'node'
+  }
+});